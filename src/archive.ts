@@ -0,0 +1,307 @@
+// ABOUTME: Persistent SQLite archive of guild messages with full-text search
+// ABOUTME: Kept current from gateway events and backfilled from channel history on startup
+
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Client, GuildTextBasedChannel, Message, PartialMessage } from 'discord.js';
+import { fetchMessageHistory } from './history.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('archive');
+
+const ARCHIVE_PATH = process.env.ARCHIVE_PATH || path.join('data', 'archive.db');
+
+// Messages fetched per channel when catching up after a restart (0 disables backfill)
+const ARCHIVE_BACKFILL_LIMIT = Number(process.env.ARCHIVE_BACKFILL_LIMIT ?? 200);
+
+export interface SearchFilters {
+  query?: string;
+  author?: string;
+  channel?: string;
+  server?: string;
+  start_date?: string;
+  end_date?: string;
+  has_attachment?: boolean;
+  limit?: number;
+}
+
+export interface ArchivedMessage {
+  id: string;
+  guild_id: string;
+  guild_name: string;
+  channel_id: string;
+  channel_name: string;
+  // Parent channel of a thread, so policy rules on the parent cover it; null for channels
+  parent_id: string | null;
+  author_id: string;
+  author_tag: string;
+  content: string;
+  created_at: number;
+  edited_at: number | null;
+  attachments: string;
+}
+
+function channelLabel(channel: GuildTextBasedChannel): string {
+  if (channel.isThread() && channel.parent) {
+    return `${channel.parent.name} › ${channel.name}`;
+  }
+  return channel.name;
+}
+
+// Quote every term so user input can't be misread as FTS5 query syntax
+function toFtsQuery(text: string): string {
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(term => `"${term.replace(/"/g, '""')}"`)
+    .join(' ');
+}
+
+function parseDate(value: string, field: string): number {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid ${field} "${value}". Use an ISO 8601 date such as 2024-05-01.`);
+  }
+  return timestamp;
+}
+
+export class MessageArchive {
+  private db: Database.Database;
+
+  constructor(filename: string = ARCHIVE_PATH) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS messages (
+        id TEXT PRIMARY KEY,
+        guild_id TEXT NOT NULL,
+        guild_name TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        channel_name TEXT NOT NULL,
+        author_id TEXT NOT NULL,
+        author_tag TEXT NOT NULL,
+        content TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        edited_at INTEGER,
+        attachments TEXT NOT NULL DEFAULT '[]',
+        has_attachments INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX IF NOT EXISTS messages_channel_created ON messages (channel_id, created_at);
+      CREATE INDEX IF NOT EXISTS messages_author ON messages (author_id);
+    `);
+    // Archives created before threads recorded their parent
+    const columns = this.db.prepare('PRAGMA table_info(messages)').all() as { name: string }[];
+    if (!columns.some(column => column.name === 'parent_id')) {
+      this.db.exec('ALTER TABLE messages ADD COLUMN parent_id TEXT');
+    }
+    this.createSearchIndex();
+  }
+
+  // The full-text index reads its text from messages and shares its rowids, so triggers keep it in step
+  // with one indexed lookup per change. Older archives kept a standalone index keyed by an unindexed
+  // message ID, which had to be scanned on every update; it's rebuilt in the new form.
+  private createSearchIndex(): void {
+    const existing = this.db.prepare("SELECT sql FROM sqlite_master WHERE name = 'messages_fts'").get() as { sql: string } | undefined;
+    const rebuild = !existing || !existing.sql.includes("content='messages'");
+    this.db.transaction(() => {
+      if (existing && rebuild) this.db.exec('DROP TABLE messages_fts');
+      this.db.exec(`
+        CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5 (content, content='messages', content_rowid='rowid');
+        CREATE TRIGGER IF NOT EXISTS messages_fts_insert AFTER INSERT ON messages BEGIN
+          INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+        END;
+        CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+        END;
+        CREATE TRIGGER IF NOT EXISTS messages_fts_update AFTER UPDATE OF content ON messages BEGIN
+          INSERT INTO messages_fts (messages_fts, rowid, content) VALUES ('delete', old.rowid, old.content);
+          INSERT INTO messages_fts (rowid, content) VALUES (new.rowid, new.content);
+        END;
+      `);
+      if (rebuild) this.db.exec("INSERT INTO messages_fts (messages_fts) VALUES ('rebuild')");
+    })();
+  }
+
+  // Insert or refresh a message; DMs are never archived. Triggers keep the search index current.
+  record(message: Message): void {
+    if (!message.inGuild()) return;
+
+    const attachments = message.attachments.map(a => a.url);
+    this.db.prepare(`
+      INSERT INTO messages (id, guild_id, guild_name, channel_id, channel_name, parent_id, author_id, author_tag,
+                            content, created_at, edited_at, attachments, has_attachments)
+      VALUES (@id, @guild_id, @guild_name, @channel_id, @channel_name, @parent_id, @author_id, @author_tag,
+              @content, @created_at, @edited_at, @attachments, @has_attachments)
+      ON CONFLICT(id) DO UPDATE SET
+        channel_name = excluded.channel_name,
+        parent_id = excluded.parent_id,
+        content = excluded.content,
+        edited_at = excluded.edited_at,
+        attachments = excluded.attachments,
+        has_attachments = excluded.has_attachments
+    `).run({
+      id: message.id,
+      guild_id: message.guild.id,
+      guild_name: message.guild.name,
+      channel_id: message.channel.id,
+      channel_name: channelLabel(message.channel),
+      parent_id: message.channel.isThread() ? message.channel.parentId : null,
+      author_id: message.author.id,
+      author_tag: message.author.tag,
+      content: message.content,
+      created_at: message.createdTimestamp,
+      edited_at: message.editedTimestamp,
+      attachments: JSON.stringify(attachments),
+      has_attachments: attachments.length > 0 ? 1 : 0,
+    });
+  }
+
+  remove(messageId: string): void {
+    this.db.prepare('DELETE FROM messages WHERE id = ?').run(messageId);
+  }
+
+  // Most recent archived message ID in a channel, used as the backfill starting point
+  latestMessageId(channelId: string): string | undefined {
+    const row = this.db
+      .prepare('SELECT id FROM messages WHERE channel_id = ? ORDER BY created_at DESC LIMIT 1')
+      .get(channelId) as { id: string } | undefined;
+    return row?.id;
+  }
+
+  // Newest first. Rows that accept rejects (e.g. channels the policy denies) don't count toward the limit.
+  search(filters: SearchFilters, accept: (message: ArchivedMessage) => boolean = () => true): ArchivedMessage[] {
+    const where: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filters.query && filters.query.trim() !== '') {
+      where.push('m.rowid IN (SELECT rowid FROM messages_fts WHERE messages_fts MATCH @query)');
+      params.query = toFtsQuery(filters.query);
+    }
+    if (filters.author) {
+      where.push('(m.author_id = @author OR lower(m.author_tag) = lower(@author) OR lower(m.author_tag) LIKE lower(@authorPrefix))');
+      params.author = filters.author.replace(/^@/, '');
+      params.authorPrefix = `${params.author}#%`;
+    }
+    if (filters.channel) {
+      const channel = filters.channel.replace(/^#/, '');
+      where.push('(m.channel_id = @channel OR lower(m.channel_name) = lower(@channel) OR lower(m.channel_name) LIKE lower(@channelPrefix))');
+      params.channel = channel;
+      params.channelPrefix = `${channel} › %`;
+    }
+    if (filters.server) {
+      where.push('(m.guild_id = @server OR lower(m.guild_name) = lower(@server))');
+      params.server = filters.server;
+    }
+    if (filters.start_date) {
+      where.push('m.created_at >= @start');
+      params.start = parseDate(filters.start_date, 'start_date');
+    }
+    if (filters.end_date) {
+      where.push('m.created_at < @end');
+      params.end = parseDate(filters.end_date, 'end_date');
+    }
+    if (filters.has_attachment !== undefined) {
+      where.push('m.has_attachments = @hasAttachments');
+      params.hasAttachments = filters.has_attachment ? 1 : 0;
+    }
+
+    const limit = Math.max(1, Math.min(filters.limit ?? 25, 100));
+
+    const sql = `
+      SELECT m.id, m.guild_id, m.guild_name, m.channel_id, m.channel_name, m.parent_id, m.author_id, m.author_tag,
+             m.content, m.created_at, m.edited_at, m.attachments
+      FROM messages m
+      ${where.length ? `WHERE ${where.join(' AND ')}` : ''}
+      ORDER BY m.created_at DESC
+    `;
+    // Rows are read lazily, so this stops as soon as enough accepted ones are found
+    const results: ArchivedMessage[] = [];
+    for (const row of this.db.prepare(sql).iterate(params) as IterableIterator<ArchivedMessage>) {
+      if (!accept(row)) continue;
+      results.push(row);
+      if (results.length >= limit) break;
+    }
+    return results;
+  }
+
+  // Catch up on messages posted while the bot was offline
+  async backfill(channel: GuildTextBasedChannel, limit: number = ARCHIVE_BACKFILL_LIMIT): Promise<number> {
+    if (limit <= 0) return 0;
+    const after = this.latestMessageId(channel.id);
+    const { messages } = await fetchMessageHistory(channel, after ? { after, limit } : { limit });
+    for (const message of messages) {
+      this.record(message);
+    }
+    return messages.length;
+  }
+
+  // Keep the archive in sync with the gateway and backfill every readable channel once ready
+  attach(client: Client): void {
+    client.on('messageCreate', (message: Message) => {
+      try {
+        this.record(message);
+      } catch (error) {
+        log.warn('Failed to record message', { error });
+      }
+    });
+
+    client.on('messageUpdate', (_oldMessage, newMessage) => {
+      try {
+        this.record(newMessage);
+      } catch (error) {
+        log.warn('Failed to update message', { error });
+      }
+    });
+
+    client.on('messageDelete', (message: Message | PartialMessage) => {
+      this.remove(message.id);
+    });
+
+    client.on('messageDeleteBulk', (messages) => {
+      for (const id of messages.keys()) {
+        this.remove(id);
+      }
+    });
+
+    client.once('ready', async () => {
+      if (ARCHIVE_BACKFILL_LIMIT <= 0) return;
+      let total = 0;
+      for (const guild of client.guilds.cache.values()) {
+        const me = guild.members.me;
+        for (const channel of guild.channels.cache.values()) {
+          if (!channel.isTextBased() || channel.isDMBased()) continue;
+          if (me && !channel.permissionsFor(me).has(['ViewChannel', 'ReadMessageHistory'])) continue;
+          try {
+            total += await this.backfill(channel);
+          } catch (error) {
+            log.warn('Backfill failed', { channel: channel.name, error });
+          }
+        }
+      }
+      log.info('Backfill finished', { messages: total });
+    });
+  }
+}
+
+// Format search hits for tool output, with jump links back to Discord
+export function formatSearchResults(results: ArchivedMessage[]): string {
+  if (results.length === 0) {
+    return 'No archived messages matched the search.';
+  }
+  const formatted = results.map(r => ({
+    id: r.id,
+    server: r.guild_name,
+    channel: `#${r.channel_name}`,
+    author: r.author_tag,
+    content: r.content,
+    timestamp: new Date(r.created_at).toISOString(),
+    edited: r.edited_at !== null,
+    attachments: JSON.parse(r.attachments) as string[],
+    link: `https://discord.com/channels/${r.guild_id}/${r.channel_id}/${r.id}`,
+  }));
+  return `Found ${formatted.length} archived messages (newest first):\n${JSON.stringify(formatted, null, 2)}`;
+}
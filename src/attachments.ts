@@ -0,0 +1,75 @@
+// ABOUTME: Downloads Discord attachments within a size limit and classifies them as text or image
+// ABOUTME: Used by the read_attachment tool and to pass images from a mention to multimodal models
+
+import fetch from 'node-fetch';
+import path from 'node:path';
+import type { Attachment } from 'discord.js';
+
+// Largest attachment that will be downloaded (5 MB matches the strictest provider image limit)
+export const ATTACHMENT_MAX_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 5 * 1024 * 1024;
+
+// Text attachments are cut off after this many characters to keep tool results manageable
+export const ATTACHMENT_TEXT_LIMIT = Number(process.env.ATTACHMENT_TEXT_LIMIT) || 50_000;
+
+// Image formats every supported multimodal provider accepts
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const TEXT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/typescript',
+  'application/x-yaml',
+  'application/yaml',
+  'application/x-sh',
+  'application/sql',
+];
+
+const TEXT_EXTENSIONS = new Set([
+  '.txt', '.md', '.markdown', '.log', '.csv', '.tsv', '.json', '.jsonl', '.yaml', '.yml', '.toml', '.ini', '.env',
+  '.xml', '.html', '.css', '.js', '.mjs', '.cjs', '.ts', '.tsx', '.jsx', '.py', '.rb', '.go', '.rs', '.java',
+  '.kt', '.c', '.h', '.cpp', '.hpp', '.cs', '.php', '.sh', '.bash', '.sql', '.swift', '.lua', '.diff', '.patch',
+]);
+
+export type AttachmentKind = 'image' | 'text' | 'binary';
+
+// Discord's content type can carry parameters such as "; charset=utf-8"
+function mimeType(attachment: Attachment): string {
+  return (attachment.contentType ?? '').split(';')[0].trim().toLowerCase();
+}
+
+export function attachmentKind(attachment: Attachment): AttachmentKind {
+  const type = mimeType(attachment);
+  if (IMAGE_TYPES.includes(type)) return 'image';
+  if (type.startsWith('text/') || TEXT_TYPES.includes(type)) return 'text';
+  if (TEXT_EXTENSIONS.has(path.extname(attachment.name).toLowerCase())) return 'text';
+  return 'binary';
+}
+
+export async function downloadAttachment(attachment: Attachment, maxBytes: number = ATTACHMENT_MAX_BYTES): Promise<Buffer> {
+  if (attachment.size > maxBytes) {
+    throw new Error(`Attachment ${attachment.name} is ${attachment.size} bytes; the limit is ${maxBytes} bytes.`);
+  }
+  const response = await fetch(attachment.url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${attachment.name}: ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export interface ImageData {
+  mimeType: string;
+  // Base64-encoded bytes
+  data: string;
+}
+
+export async function readImageAttachment(attachment: Attachment): Promise<ImageData> {
+  const data = await downloadAttachment(attachment);
+  return { mimeType: mimeType(attachment), data: data.toString('base64') };
+}
+
+export async function readTextAttachment(attachment: Attachment): Promise<string> {
+  const text = (await downloadAttachment(attachment)).toString('utf8');
+  if (text.length <= ATTACHMENT_TEXT_LIMIT) return text;
+  return `${text.slice(0, ATTACHMENT_TEXT_LIMIT)}\n[Truncated: showing ${ATTACHMENT_TEXT_LIMIT} of ${text.length} characters]`;
+}
@@ -0,0 +1,170 @@
+// ABOUTME: Persistent audit trail of tool calls: who made them (Discord user or MCP session), arguments, result and latency
+// ABOUTME: Stored in SQLite (AUDIT_PATH) and pruned after AUDIT_RETENTION_DAYS; queried by the audit_log tool
+
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ToolCaller } from './policy.js';
+
+const AUDIT_PATH = process.env.AUDIT_PATH || path.join('data', 'audit.db');
+
+// Entries older than this are deleted (0 keeps everything)
+const AUDIT_RETENTION_DAYS = Number(process.env.AUDIT_RETENTION_DAYS ?? 90);
+
+// Arguments and results are clipped so one large message or read doesn't bloat the database
+const MAX_STORED_CHARS = 4000;
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface AuditEntry {
+  id: number;
+  createdAt: number;
+  requestId: string | null;
+  caller?: ToolCaller;
+  // Server the request came from; null for DMs and MCP clients
+  guildId: string | null;
+  tool: string;
+  args: string;
+  mutating: boolean;
+  dryRun: boolean;
+  ok: boolean;
+  // Tool output, or the error message when ok is false
+  result: string;
+  latencyMs: number;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id' | 'createdAt'>;
+
+export interface AuditQuery {
+  since: number;
+  guildId?: string;
+  // Discord user ID or username
+  user?: string;
+  tool?: string;
+  writesOnly?: boolean;
+  errorsOnly?: boolean;
+  limit: number;
+}
+
+interface AuditRow {
+  id: number;
+  created_at: number;
+  request_id: string | null;
+  caller_type: string | null;
+  user_id: string | null;
+  username: string | null;
+  session_id: string | null;
+  guild_id: string | null;
+  tool: string;
+  args: string;
+  mutating: number;
+  dry_run: number;
+  ok: number;
+  result: string;
+  latency_ms: number;
+}
+
+function clip(text: string): string {
+  return text.length > MAX_STORED_CHARS ? `${text.slice(0, MAX_STORED_CHARS)}…(truncated)` : text;
+}
+
+function fromRow(row: AuditRow): AuditEntry {
+  const caller: ToolCaller | undefined = row.caller_type === 'discord'
+    ? { type: 'discord', userId: row.user_id!, ...(row.username ? { username: row.username } : {}) }
+    : row.caller_type === 'mcp'
+      ? { type: 'mcp', ...(row.session_id ? { sessionId: row.session_id } : {}) }
+      : undefined;
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    requestId: row.request_id,
+    caller,
+    guildId: row.guild_id,
+    tool: row.tool,
+    args: row.args,
+    mutating: !!row.mutating,
+    dryRun: !!row.dry_run,
+    ok: !!row.ok,
+    result: row.result,
+    latencyMs: row.latency_ms,
+  };
+}
+
+export class AuditLog {
+  private db: Database.Database;
+  private lastPrune = 0;
+
+  constructor(filename: string = AUDIT_PATH) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL,
+        request_id TEXT,
+        caller_type TEXT,
+        user_id TEXT,
+        username TEXT,
+        session_id TEXT,
+        guild_id TEXT,
+        tool TEXT NOT NULL,
+        args TEXT NOT NULL,
+        mutating INTEGER NOT NULL,
+        dry_run INTEGER NOT NULL,
+        ok INTEGER NOT NULL,
+        result TEXT NOT NULL,
+        latency_ms INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS audit_created ON audit (created_at);
+      CREATE INDEX IF NOT EXISTS audit_guild ON audit (guild_id, created_at);
+    `);
+  }
+
+  record(entry: NewAuditEntry): void {
+    this.db.prepare(`
+      INSERT INTO audit (created_at, request_id, caller_type, user_id, username, session_id, guild_id,
+        tool, args, mutating, dry_run, ok, result, latency_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      Date.now(),
+      entry.requestId,
+      entry.caller?.type ?? null,
+      entry.caller?.type === 'discord' ? entry.caller.userId : null,
+      entry.caller?.type === 'discord' ? entry.caller.username ?? null : null,
+      entry.caller?.type === 'mcp' ? entry.caller.sessionId ?? null : null,
+      entry.guildId,
+      entry.tool,
+      clip(entry.args),
+      entry.mutating ? 1 : 0,
+      entry.dryRun ? 1 : 0,
+      entry.ok ? 1 : 0,
+      clip(entry.result),
+      entry.latencyMs
+    );
+    this.prune();
+  }
+
+  // Newest first
+  query(query: AuditQuery): AuditEntry[] {
+    const where = ['created_at >= @since'];
+    if (query.guildId) where.push('guild_id = @guildId');
+    if (query.user) where.push('(user_id = @user OR lower(username) = lower(@user))');
+    if (query.tool) where.push('tool = @tool');
+    if (query.writesOnly) where.push('mutating = 1');
+    if (query.errorsOnly) where.push('ok = 0');
+
+    const rows = this.db.prepare(`
+      SELECT * FROM audit WHERE ${where.join(' AND ')} ORDER BY created_at DESC, id DESC LIMIT @limit
+    `).all({ ...query, user: query.user?.replace(/^@/, '') }) as AuditRow[];
+    return rows.map(fromRow);
+  }
+
+  private prune(now: number = Date.now()): void {
+    if (AUDIT_RETENTION_DAYS <= 0 || now - this.lastPrune < PRUNE_INTERVAL_MS) return;
+    this.lastPrune = now;
+    this.db.prepare('DELETE FROM audit WHERE created_at < ?').run(now - AUDIT_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,219 @@
+// ABOUTME: Per-server and per-channel bot settings: persona, system prompt, model, sampling, streaming and trigger rules
+// ABOUTME: Kept in a JSON file (BOT_CONFIG_FILE, default data/bot-config.json) that /config writes to and that reloads when edited
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { createLogger } from './logger.js';
+
+const log = createLogger('config');
+
+const BOT_CONFIG_FILE = process.env.BOT_CONFIG_FILE || path.join('data', 'bot-config.json');
+
+// How often the file is checked for edits
+const WATCH_INTERVAL_MS = 2000;
+
+export const DEFAULT_PERSONA = 'AIMI';
+
+const settingsSchema = z.object({
+  // Name the bot introduces itself with
+  persona: z.string().min(1).optional(),
+  // Replaces the default style instructions; tool guidance is always included
+  systemPrompt: z.string().min(1).optional(),
+  model: z.string().min(1).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  // Whether replies stream into progressively edited messages
+  streaming: z.boolean().optional(),
+  // Whether mutating tool calls need the requester's approval
+  confirmWrites: z.boolean().optional(),
+  // Mentions and DMs always get a reply; "always" answers every message, "prefix" those starting with a prefix
+  trigger: z.enum(['mention', 'always', 'prefix']).optional(),
+  prefixes: z.array(z.string().min(1)).optional(),
+}).strict();
+
+const guildSchema = settingsSchema.extend({
+  // Keyed by channel, thread or category ID or name
+  channels: z.record(settingsSchema).optional(),
+}).strict();
+
+const configSchema = z.object({
+  defaults: settingsSchema.optional(),
+  // Keyed by server ID or name
+  guilds: z.record(guildSchema).optional(),
+}).strict();
+
+export type BotSettings = z.infer<typeof settingsSchema>;
+export type TriggerMode = NonNullable<BotSettings['trigger']>;
+type BotConfigFile = z.infer<typeof configSchema>;
+
+interface Named {
+  id: string;
+  name: string;
+}
+
+// Any channel, thread or category; threads and channels inherit from their parents
+export interface ConfigChannel {
+  id: string;
+  name?: string | null;
+  parent?: ConfigChannel | null;
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+// Find the entry for a server or channel by ID, then by name (channel names with or without "#")
+function findKey(entries: Record<string, unknown> | undefined, target: { id: string; name?: string | null }): string | undefined {
+  if (!entries) return undefined;
+  if (target.id in entries) return target.id;
+  const name = target.name?.toLowerCase();
+  return name ? Object.keys(entries).find(key => key.replace(/^#/, '').toLowerCase() === name) : undefined;
+}
+
+// Outermost first: category, channel, thread
+function channelChain(channel: ConfigChannel): ConfigChannel[] {
+  const chain: ConfigChannel[] = [];
+  for (let current: ConfigChannel | null | undefined = channel; current && chain.length < 3; current = current.parent) {
+    chain.unshift(current);
+  }
+  return chain;
+}
+
+function withoutUnset(settings: BotSettings): BotSettings {
+  return Object.fromEntries(Object.entries(settings).filter(([, value]) => value !== undefined));
+}
+
+// The prompt in a message that isn't a mention or DM, or null when the channel's trigger rules ignore it
+export function triggeredPrompt(settings: BotSettings, content: string): string | null {
+  switch (settings.trigger) {
+    case 'always':
+      return content.trim();
+    case 'prefix': {
+      const text = content.trimStart();
+      const prefix = settings.prefixes?.find(p => text.toLowerCase().startsWith(p.toLowerCase()));
+      return prefix ? text.slice(prefix.length).trim() : null;
+    }
+    default:
+      return null;
+  }
+}
+
+export class BotConfig {
+  private config: BotConfigFile = {};
+  // Last content written by /config, so the watcher doesn't reload our own change
+  private written?: string;
+  private watching = false;
+
+  constructor(private file: string = BOT_CONFIG_FILE) {}
+
+  static load(file?: string): BotConfig {
+    const config = new BotConfig(file);
+    config.reload();
+    return config;
+  }
+
+  // Re-read the file; an invalid file throws and keeps the current settings
+  reload(): void {
+    if (!fs.existsSync(this.file)) {
+      this.config = {};
+      return;
+    }
+
+    const text = fs.readFileSync(this.file, 'utf8');
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid bot config file ${this.file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const result = configSchema.safeParse(parsed);
+    if (!result.success) {
+      throw new Error(`Invalid bot config file ${this.file}: ${describeIssues(result.error)}`);
+    }
+    this.config = result.data;
+    this.written = text;
+    log.info('Loaded bot config', { file: this.file });
+  }
+
+  // Pick up edits to the file without a restart
+  watch(): void {
+    if (this.watching) return;
+    this.watching = true;
+    fs.watchFile(this.file, { interval: WATCH_INTERVAL_MS }, () => {
+      try {
+        const text = fs.existsSync(this.file) ? fs.readFileSync(this.file, 'utf8') : undefined;
+        if (text !== undefined && text === this.written) return;
+        this.reload();
+      } catch (error) {
+        log.error('Keeping the previous bot config', { error });
+      }
+    }).unref();
+  }
+
+  // Settings for a request: file defaults, then the server, then its category, channel and thread
+  resolve(guild?: Named | null, channel?: ConfigChannel | null): BotSettings {
+    const layers: BotSettings[] = [this.config.defaults ?? {}];
+    const guildKey = guild ? findKey(this.config.guilds, guild) : undefined;
+    const guildConfig = guildKey ? this.config.guilds![guildKey] : undefined;
+    if (guildConfig) {
+      const { channels, ...settings } = guildConfig;
+      layers.push(settings);
+      for (const link of channel ? channelChain(channel) : []) {
+        const key = findKey(channels, link);
+        if (key) layers.push(channels![key]);
+      }
+    }
+    return Object.assign({}, ...layers.map(withoutUnset));
+  }
+
+  // Change settings for a server, or for one channel in it, and save them to the file
+  update(guild: Named, patch: BotSettings, channel?: Named): BotSettings {
+    const result = settingsSchema.safeParse(patch);
+    if (!result.success) {
+      throw new Error(`Invalid settings: ${describeIssues(result.error)}`);
+    }
+
+    const guilds = { ...this.config.guilds };
+    const guildKey = findKey(guilds, guild) ?? guild.id;
+    const guildConfig = { ...guilds[guildKey] };
+    if (channel) {
+      const channels = { ...guildConfig.channels };
+      const channelKey = findKey(channels, channel) ?? channel.id;
+      channels[channelKey] = { ...channels[channelKey], ...withoutUnset(result.data) };
+      guildConfig.channels = channels;
+    } else {
+      Object.assign(guildConfig, withoutUnset(result.data));
+    }
+    guilds[guildKey] = guildConfig;
+    this.save({ ...this.config, guilds });
+    return this.resolve(guild, channel);
+  }
+
+  // Drop the overrides for a server (including its channels), or for one channel
+  reset(guild: Named, channel?: Named): void {
+    const guilds = { ...this.config.guilds };
+    const guildKey = findKey(guilds, guild);
+    if (!guildKey) return;
+    if (channel) {
+      const channels = { ...guilds[guildKey].channels };
+      const channelKey = findKey(channels, channel);
+      if (!channelKey) return;
+      delete channels[channelKey];
+      guilds[guildKey] = { ...guilds[guildKey], channels };
+    } else {
+      delete guilds[guildKey];
+    }
+    this.save({ ...this.config, guilds });
+  }
+
+  private save(config: BotConfigFile): void {
+    const text = `${JSON.stringify(config, null, 2)}\n`;
+    const temp = `${this.file}.tmp`;
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(temp, text);
+    fs.renameSync(temp, this.file);
+    this.config = config;
+    this.written = text;
+  }
+}
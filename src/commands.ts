@@ -0,0 +1,432 @@
+// ABOUTME: Slash commands (/ask, /summarize, /search, /config, /usage, /forget) for the Discord bot
+// ABOUTME: Question commands defer, run through the same LLM tool loop as mentions, then follow up
+
+import {
+  ChannelType,
+  InteractionContextType,
+  PermissionFlagsBits,
+  SlashCommandBuilder,
+  type ChatInputCommandInteraction,
+  type Client,
+  type Interaction,
+} from 'discord.js';
+import { longAnswerPayload, splitMessage } from './streaming-reply.js';
+import { DEFAULT_PERSONA, type BotConfig, type BotSettings, type ConfigChannel } from './bot-config.js';
+import type { ToolCaller } from './policy.js';
+import { requestConfirmation, type ConfirmationDecision, type ConfirmationRequest } from './confirmation.js';
+import { UsageLimitError, formatUsageReport, type UsageTracker } from './usage.js';
+import { createLogger, newRequestId, withLogContext } from './logger.js';
+import { parseSince } from './durations.js';
+
+const log = createLogger('commands');
+
+export interface CommandDeps {
+  // Run a prompt through the LLM tool loop and return the final answer
+  ask: (prompt: string, context: string, options: {
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+    caller?: ToolCaller;
+    guildId?: string | null;
+    confirm?: (request: ConfirmationRequest) => Promise<ConfirmationDecision>;
+  }) => Promise<string>;
+  // Current LLM setup, for /config show
+  describeLLM: () => { provider: string; model: string; streaming: boolean; confirmWrites: boolean };
+  // Per-server and per-channel settings, changed through /config
+  config: BotConfig;
+  // LLM usage records, for /usage
+  usage: UsageTracker;
+  // Clear the conversation memory of a channel, thread or DM
+  forget: (channelId: string) => void;
+}
+
+const TEXT_CHANNEL_TYPES = [
+  ChannelType.GuildText,
+  ChannelType.GuildAnnouncement,
+  ChannelType.GuildVoice,
+  ChannelType.GuildStageVoice,
+  ChannelType.PublicThread,
+  ChannelType.PrivateThread,
+  ChannelType.AnnouncementThread,
+] as const;
+
+// Settings can also be set on a category for all channels in it
+const CONFIG_CHANNEL_TYPES = [...TEXT_CHANNEL_TYPES, ChannelType.GuildCategory, ChannelType.GuildForum] as const;
+
+export const slashCommands = [
+  new SlashCommandBuilder()
+    .setName('ask')
+    .setDescription('Ask the bot anything; it can read and search Discord channels')
+    .setContexts(InteractionContextType.Guild, InteractionContextType.BotDM)
+    .addStringOption(option => option
+      .setName('question')
+      .setDescription('What do you want to know?')
+      .setRequired(true))
+    .addBooleanOption(option => option
+      .setName('private')
+      .setDescription('Only you can see the answer')),
+
+  new SlashCommandBuilder()
+    .setName('summarize')
+    .setDescription('Summarize a channel over a recent period')
+    .setContexts(InteractionContextType.Guild)
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Channel or thread to summarize')
+      .addChannelTypes(...TEXT_CHANNEL_TYPES)
+      .setRequired(true))
+    .addStringOption(option => option
+      .setName('since')
+      .setDescription('How far back to look, e.g. 30m, 12h, 3d, 1w (default 24h)'))
+    .addBooleanOption(option => option
+      .setName('private')
+      .setDescription('Only you can see the summary')),
+
+  new SlashCommandBuilder()
+    .setName('search')
+    .setDescription('Search the message archive')
+    .setContexts(InteractionContextType.Guild)
+    .addStringOption(option => option
+      .setName('query')
+      .setDescription('Words to search for')
+      .setRequired(true))
+    .addUserOption(option => option
+      .setName('author')
+      .setDescription('Only messages from this user'))
+    .addChannelOption(option => option
+      .setName('channel')
+      .setDescription('Only messages in this channel')
+      .addChannelTypes(...TEXT_CHANNEL_TYPES))
+    .addStringOption(option => option
+      .setName('since')
+      .setDescription('How far back to look, e.g. 12h, 7d, 4w'))
+    .addBooleanOption(option => option
+      .setName('private')
+      .setDescription('Only you can see the results')),
+
+  new SlashCommandBuilder()
+    .setName('config')
+    .setDescription('View or change the bot settings for this server (admins only)')
+    .setContexts(InteractionContextType.Guild)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addSubcommand(sub => sub
+      .setName('show')
+      .setDescription('Show the settings that apply in a channel')
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Channel, thread or category (default: this channel)')
+        .addChannelTypes(...CONFIG_CHANNEL_TYPES)))
+    .addSubcommand(sub => sub
+      .setName('set')
+      .setDescription('Change settings for this server, or for one channel')
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Only change this channel, thread or category (default: the whole server)')
+        .addChannelTypes(...CONFIG_CHANNEL_TYPES))
+      .addStringOption(option => option
+        .setName('model')
+        .setDescription('LLM model to use'))
+      .addStringOption(option => option
+        .setName('persona')
+        .setDescription('Name the bot introduces itself with')
+        .setMaxLength(100))
+      .addStringOption(option => option
+        .setName('system_prompt')
+        .setDescription('Instructions that replace the default style guidance, e.g. "Answer briefly, in German"'))
+      .addNumberOption(option => option
+        .setName('temperature')
+        .setDescription('Sampling temperature, 0 to 2')
+        .setMinValue(0)
+        .setMaxValue(2))
+      .addIntegerOption(option => option
+        .setName('max_tokens')
+        .setDescription('Maximum tokens per LLM response')
+        .setMinValue(1))
+      .addBooleanOption(option => option
+        .setName('streaming')
+        .setDescription('Stream replies into progressively edited messages'))
+      .addBooleanOption(option => option
+        .setName('confirm_writes')
+        .setDescription('Ask the requester to approve posts and other changes before they happen'))
+      .addStringOption(option => option
+        .setName('trigger')
+        .setDescription('Which messages get a reply besides mentions and DMs')
+        .addChoices(
+          { name: 'Mentions only', value: 'mention' },
+          { name: 'Every message', value: 'always' },
+          { name: 'Messages starting with a prefix', value: 'prefix' },
+        ))
+      .addStringOption(option => option
+        .setName('prefixes')
+        .setDescription('Comma-separated prefixes for the prefix trigger, e.g. "!ai, aimi"')))
+    .addSubcommand(sub => sub
+      .setName('reset')
+      .setDescription('Go back to the default settings')
+      .addChannelOption(option => option
+        .setName('channel')
+        .setDescription('Only reset this channel, thread or category (default: the whole server)')
+        .addChannelTypes(...CONFIG_CHANNEL_TYPES)))
+    .addSubcommand(sub => sub
+      .setName('reload')
+      .setDescription('Re-read the bot config file')),
+
+  new SlashCommandBuilder()
+    .setName('usage')
+    .setDescription('Show LLM token usage and cost in this server by user and model (admins only)')
+    .setContexts(InteractionContextType.Guild)
+    .setDefaultMemberPermissions(PermissionFlagsBits.ManageGuild)
+    .addStringOption(option => option
+      .setName('since')
+      .setDescription('How far back to look, e.g. 12h, 7d, 4w (default 24h)')),
+
+  new SlashCommandBuilder()
+    .setName('forget')
+    .setDescription("Clear the bot's memory of the conversation in this channel, thread or DM")
+    .setContexts(InteractionContextType.Guild, InteractionContextType.BotDM),
+];
+
+// Register commands globally, or on one guild when DISCORD_COMMAND_GUILD_ID is set (updates instantly, handy in development)
+export async function registerSlashCommands(client: Client<true>): Promise<void> {
+  const body = slashCommands.map(command => command.toJSON());
+  const guildId = process.env.DISCORD_COMMAND_GUILD_ID;
+
+  if (guildId) {
+    const guild = await client.guilds.fetch(guildId);
+    await guild.commands.set(body);
+    log.info('Registered slash commands', { count: body.length, guild: guild.name });
+  } else {
+    await client.application.commands.set(body);
+    log.info('Registered global slash commands', { count: body.length });
+  }
+}
+
+function commandContext(interaction: ChatInputCommandInteraction, settings: BotSettings): string {
+  return `You are ${settings.persona ?? DEFAULT_PERSONA}, an AI assistant in the "${interaction.guild?.name || 'DM'}" Discord server.
+    You have access to tools to read Discord channels, search the message archive, list servers, react to messages, and send, edit, delete and pin messages.
+    ${interaction.guildId ? `The current server ID is ${interaction.guildId}; pass it as the server argument to tools.` : ''}
+    You are answering the /${interaction.commandName} slash command from ${interaction.user.username}.
+    Reply with the answer only; it will be posted for the user.
+    ${settings.systemPrompt ?? ''}`;
+}
+
+// Post an answer into the deferred reply, rolling over into follow-ups past Discord's length limit
+// or attaching it as a file when it is very long
+async function sendAnswer(interaction: ChatInputCommandInteraction, text: string, ephemeral: boolean): Promise<void> {
+  const attachment = longAnswerPayload(text.trim());
+  if (attachment) {
+    await interaction.editReply(attachment);
+    return;
+  }
+
+  const [first, ...rest] = splitMessage(text.trim() || 'I processed your request.');
+  await interaction.editReply(first);
+  for (const part of rest) {
+    await interaction.followUp({ content: part, ephemeral });
+  }
+}
+
+// Where a resolved setting comes from, for /config show
+function settingSource(key: keyof BotSettings, layers: [string, BotSettings][]): string {
+  const value = (settings: BotSettings) => JSON.stringify(settings[key]);
+  for (let i = layers.length - 1; i > 0; i--) {
+    if (value(layers[i][1]) !== value(layers[i - 1][1])) return ` (${layers[i][0]})`;
+  }
+  return layers[0][1][key] !== undefined ? ' (config default)' : '';
+}
+
+// The guild's cached channel (which knows its parents) for a channel option, falling back to the option itself
+function configChannel(interaction: ChatInputCommandInteraction): { id: string; name: string } & ConfigChannel | null {
+  const option = interaction.options.getChannel('channel');
+  if (!option) return null;
+  return interaction.guild?.channels.cache.get(option.id) ?? { id: option.id, name: option.name ?? option.id };
+}
+
+function parsePrefixes(value: string): string[] {
+  return value.split(',').map(prefix => prefix.trim()).filter(Boolean);
+}
+
+async function handleConfig(interaction: ChatInputCommandInteraction, deps: CommandDeps): Promise<void> {
+  const guild = interaction.guild;
+  if (!guild || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.reply({ content: 'Only server admins (Manage Server) can use /config.', ephemeral: true });
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+  const channel = configChannel(interaction);
+  if (subcommand === 'set') {
+    const model = interaction.options.getString('model');
+    const persona = interaction.options.getString('persona');
+    const systemPrompt = interaction.options.getString('system_prompt');
+    const temperature = interaction.options.getNumber('temperature');
+    const maxTokens = interaction.options.getInteger('max_tokens');
+    const streaming = interaction.options.getBoolean('streaming');
+    const confirmWrites = interaction.options.getBoolean('confirm_writes');
+    const trigger = interaction.options.getString('trigger') as BotSettings['trigger'] | null;
+    const prefixes = interaction.options.getString('prefixes');
+    const patch: BotSettings = {
+      ...(model ? { model } : {}),
+      ...(persona ? { persona } : {}),
+      ...(systemPrompt ? { systemPrompt } : {}),
+      ...(temperature !== null ? { temperature } : {}),
+      ...(maxTokens !== null ? { maxTokens } : {}),
+      ...(streaming !== null ? { streaming } : {}),
+      ...(confirmWrites !== null ? { confirmWrites } : {}),
+      ...(trigger ? { trigger } : {}),
+      ...(prefixes !== null ? { prefixes: parsePrefixes(prefixes) } : {}),
+    };
+    const next = { ...deps.config.resolve(guild, channel), ...patch };
+    if (next.trigger === 'prefix' && !next.prefixes?.length) {
+      await interaction.reply({ content: 'The prefix trigger needs at least one prefix, e.g. `prefixes:!ai`.', ephemeral: true });
+      return;
+    }
+    deps.config.update(guild, patch, channel ?? undefined);
+  } else if (subcommand === 'reset') {
+    deps.config.reset(guild, channel ?? undefined);
+  } else if (subcommand === 'reload') {
+    deps.config.reload();
+  }
+
+  // Settings where the command was used, or in the channel it named
+  const target = channel ?? interaction.channel;
+  const layers: [string, BotSettings][] = [
+    ['default', deps.config.resolve()],
+    ['server override', deps.config.resolve(guild)],
+    ['channel override', deps.config.resolve(guild, target)],
+  ];
+  const settings = layers[2][1];
+  const source = (key: keyof BotSettings) => settingSource(key, layers);
+  const defaults = deps.describeLLM();
+  const trigger = settings.trigger ?? 'mention';
+  await interaction.reply({
+    content: [
+      `**Settings for ${target && 'name' in target && target.name ? `#${target.name} in ` : ''}${guild.name}**`,
+      `Provider: \`${defaults.provider}\``,
+      `Model: \`${settings.model ?? defaults.model}\`${source('model')}`,
+      `Persona: ${settings.persona ?? DEFAULT_PERSONA}${source('persona')}`,
+      `System prompt: ${settings.systemPrompt ? `"${settings.systemPrompt.length > 200 ? `${settings.systemPrompt.slice(0, 200)}…` : settings.systemPrompt}"` : 'default'}${source('systemPrompt')}`,
+      `Temperature: ${settings.temperature ?? 'provider default'}${source('temperature')}`,
+      `Max tokens: ${settings.maxTokens ?? 'provider default'}${source('maxTokens')}`,
+      `Streaming: ${(settings.streaming ?? defaults.streaming) ? 'on' : 'off'}${source('streaming')}`,
+      `Confirm writes: ${(settings.confirmWrites ?? defaults.confirmWrites) ? 'on' : 'off'}${source('confirmWrites')}`,
+      `Trigger: ${trigger}${trigger === 'prefix' ? ` (${settings.prefixes?.map(p => `\`${p}\``).join(', ')})` : ''}${source('trigger')}`,
+    ].join('\n'),
+    ephemeral: true,
+  });
+}
+
+async function handleUsage(interaction: ChatInputCommandInteraction, deps: CommandDeps): Promise<void> {
+  if (!interaction.guildId || !interaction.memberPermissions?.has(PermissionFlagsBits.ManageGuild)) {
+    await interaction.reply({ content: 'Only server admins (Manage Server) can use /usage.', ephemeral: true });
+    return;
+  }
+
+  const since = parseSince(interaction.options.getString('since') ?? '24h');
+  const report = deps.usage.report({ since: since.getTime(), guildId: interaction.guildId });
+  const [first, ...rest] = splitMessage(formatUsageReport(report, `in ${interaction.guild?.name}`));
+  await interaction.reply({ content: first, ephemeral: true });
+  for (const part of rest) {
+    await interaction.followUp({ content: part, ephemeral: true });
+  }
+}
+
+async function handleCommand(interaction: ChatInputCommandInteraction, deps: CommandDeps): Promise<void> {
+  if (interaction.commandName === 'config') {
+    return handleConfig(interaction, deps);
+  }
+  if (interaction.commandName === 'usage') {
+    return handleUsage(interaction, deps);
+  }
+  if (interaction.commandName === 'forget') {
+    // Channel memory is shared, so clearing it in a server is for moderators
+    if (interaction.inGuild() && !interaction.memberPermissions?.has(PermissionFlagsBits.ManageMessages)) {
+      await interaction.reply({ content: 'Only members who can manage messages here can use /forget.', ephemeral: true });
+      return;
+    }
+    deps.forget(interaction.channelId);
+    await interaction.reply({ content: "Done, I've forgotten our earlier conversation here.", ephemeral: true });
+    return;
+  }
+
+  const ephemeral = interaction.options.getBoolean('private') ?? false;
+  await interaction.deferReply({ ephemeral });
+
+  let prompt: string;
+  switch (interaction.commandName) {
+    case 'ask':
+      prompt = interaction.options.getString('question', true);
+      break;
+
+    case 'summarize': {
+      const channel = interaction.options.getChannel('channel', true);
+      const since = parseSince(interaction.options.getString('since') ?? '24h');
+      prompt = `Summarize the discussion in channel ID ${channel.id} (<#${channel.id}>) since ${since.toISOString()}.
+        Use read_messages with channel "${channel.id}" and start_date "${since.toISOString()}", continuing with the returned cursor if more messages are available.
+        Cover the main topics, decisions and open questions.`;
+      break;
+    }
+
+    case 'search': {
+      const query = interaction.options.getString('query', true);
+      const author = interaction.options.getUser('author');
+      const channel = interaction.options.getChannel('channel');
+      const since = interaction.options.getString('since');
+      const filters = [
+        `query "${query}"`,
+        author ? `author "${author.id}"` : null,
+        channel ? `channel "${channel.id}"` : null,
+        since ? `start_date "${parseSince(since).toISOString()}"` : null,
+      ].filter(Boolean).join(', ');
+      prompt = `Use search_messages with ${filters}. List the most relevant matches with author, date, a short quote and the link, then briefly summarize what they say.`;
+      break;
+    }
+
+    default:
+      await interaction.editReply(`Unknown command: /${interaction.commandName}`);
+      return;
+  }
+
+  const settings = deps.config.resolve(interaction.guild, interaction.channel);
+  const confirmWrites = settings.confirmWrites ?? deps.describeLLM().confirmWrites;
+  const answer = await deps.ask(prompt, commandContext(interaction, settings), {
+    model: settings.model,
+    temperature: settings.temperature,
+    maxTokens: settings.maxTokens,
+    caller: { type: 'discord', userId: interaction.user.id, username: interaction.user.username },
+    guildId: interaction.guildId,
+    confirm: confirmWrites
+      ? (request) => requestConfirmation(
+          payload => interaction.followUp({ ...payload, ephemeral, fetchReply: true }),
+          interaction.user.id,
+          request
+        )
+      : undefined,
+  });
+  await sendAnswer(interaction, answer, ephemeral);
+}
+
+// Interaction entry point; errors are reported back to the user instead of leaving the command hanging
+export async function handleInteraction(interaction: Interaction, deps: CommandDeps): Promise<void> {
+  if (!interaction.isChatInputCommand()) return;
+
+  const fields = { requestId: newRequestId(), userId: interaction.user.id, channelId: interaction.channelId, guildId: interaction.guildId };
+  return withLogContext(fields, () => runInteraction(interaction, deps));
+}
+
+async function runInteraction(interaction: ChatInputCommandInteraction, deps: CommandDeps): Promise<void> {
+  log.info('Slash command', { command: interaction.commandName, user: interaction.user.username });
+  try {
+    await handleCommand(interaction, deps);
+  } catch (error) {
+    log.error('Error handling slash command', { command: interaction.commandName, error });
+    // Throttling notices are already worded for the user
+    const content = error instanceof UsageLimitError
+      ? error.message
+      : `Sorry, I encountered an error: ${error instanceof Error ? error.message : String(error)}`;
+    if (interaction.deferred || interaction.replied) {
+      await interaction.editReply(content).catch(() => undefined);
+    } else {
+      await interaction.reply({ content, ephemeral: true }).catch(() => undefined);
+    }
+  }
+}
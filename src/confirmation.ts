@@ -0,0 +1,93 @@
+// ABOUTME: Approve/Reject button prompts for mutating tool calls triggered through the bot
+// ABOUTME: Only the requesting user can answer; the tool loop waits for the decision or a timeout
+
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ComponentType,
+  type Message,
+  type MessageCreateOptions,
+} from 'discord.js';
+
+export const CONFIRM_TIMEOUT_SECONDS = Number(process.env.CONFIRM_TIMEOUT_SECONDS) || 120;
+
+export type ConfirmationDecision = 'approved' | 'rejected' | 'timeout';
+
+export interface ConfirmationRequest {
+  toolName: string;
+  // Dry-run description of what the call would do
+  preview: string;
+}
+
+// Posts the prompt; lets callers reply to a message or follow up an interaction
+export type PromptSender = (payload: Pick<MessageCreateOptions, 'content' | 'components'>) => Promise<Message>;
+
+function quote(text: string): string {
+  const trimmed = text.length > 1500 ? `${text.slice(0, 1500)}…` : text;
+  return trimmed.split('\n').map(line => `> ${line}`).join('\n');
+}
+
+export async function requestConfirmation(
+  send: PromptSender,
+  userId: string,
+  request: ConfirmationRequest,
+  timeoutSeconds: number = CONFIRM_TIMEOUT_SECONDS
+): Promise<ConfirmationDecision> {
+  const approve = new ButtonBuilder()
+    .setCustomId('confirm:approve')
+    .setLabel('Approve')
+    .setStyle(ButtonStyle.Success);
+  const reject = new ButtonBuilder()
+    .setCustomId('confirm:reject')
+    .setLabel('Reject')
+    .setStyle(ButtonStyle.Danger);
+
+  const header = `<@${userId}>, I want to run \`${request.toolName}\`:\n${quote(request.preview.replace(/^\[Dry run\]\s*/, ''))}`;
+  const content = `${header}\n-# Approve within ${timeoutSeconds} seconds or it will be skipped.`;
+
+  const prompt = await send({
+    content,
+    components: [new ActionRowBuilder<ButtonBuilder>().addComponents(approve, reject)],
+  });
+
+  return new Promise<ConfirmationDecision>((resolve) => {
+    const collector = prompt.createMessageComponentCollector({
+      componentType: ComponentType.Button,
+      time: timeoutSeconds * 1000,
+    });
+
+    collector.on('collect', async (interaction) => {
+      if (interaction.user.id !== userId) {
+        await interaction.reply({ content: 'Only the person who asked can answer this.', ephemeral: true }).catch(() => undefined);
+        return;
+      }
+
+      const decision: ConfirmationDecision = interaction.customId === 'confirm:approve' ? 'approved' : 'rejected';
+      collector.stop(decision);
+      await interaction.update({
+        content: `${header}\n-# ${decision === 'approved' ? '✅ Approved' : '❌ Rejected'} by ${interaction.user.username}`,
+        components: [],
+      }).catch(() => undefined);
+    });
+
+    collector.on('end', async (_collected, reason) => {
+      if (reason === 'approved' || reason === 'rejected') {
+        resolve(reason);
+        return;
+      }
+      await prompt.edit({
+        content: `${header}\n-# ⌛ No answer; skipped.`,
+        components: [],
+      }).catch(() => undefined);
+      resolve('timeout');
+    });
+  });
+}
+
+// Tool result reported back to the model when the user doesn't approve
+export function describeDecision(decision: ConfirmationDecision): string {
+  return decision === 'rejected'
+    ? 'The user rejected this action, so it was not performed. Do not retry it unless they ask again.'
+    : `The user did not confirm this action within ${CONFIRM_TIMEOUT_SECONDS} seconds, so it was not performed.`;
+}
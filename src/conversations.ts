@@ -0,0 +1,176 @@
+// ABOUTME: Persistent per-channel conversation memory: the user, assistant and tool turns of earlier requests
+// ABOUTME: Kept under a token budget by folding the oldest exchanges into a rolling summary (or dropping them)
+
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ChatMessage } from './llm/index.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('conversations');
+
+const CONVERSATIONS_PATH = process.env.CONVERSATIONS_PATH || path.join('data', 'conversations.db');
+
+// Estimated tokens of history sent with each request; older exchanges are summarized once it's exceeded
+export const CONVERSATION_TOKEN_BUDGET = Number(process.env.CONVERSATION_TOKEN_BUDGET ?? 8000);
+
+// Tool results are clipped to this many characters when stored, so one large read doesn't crowd out the rest
+const TOOL_RESULT_MAX_CHARS = 4000;
+
+// Rough size estimate; close enough for budgeting across providers
+const CHARS_PER_TOKEN = 4;
+
+export interface Conversation {
+  summary?: string;
+  turns: ChatMessage[];
+}
+
+// Folds older turns into the running summary and returns the new summary
+export type Summarizer = (summary: string | undefined, turns: ChatMessage[]) => Promise<string>;
+
+interface TurnRow {
+  id: number;
+  message: string;
+}
+
+export function estimateTokens(turns: ChatMessage[]): number {
+  return Math.ceil(turns.reduce((sum, turn) => sum + JSON.stringify(turn).length, 0) / CHARS_PER_TOKEN);
+}
+
+// Plain-text rendering of turns for the summarizer
+export function formatTurns(turns: ChatMessage[]): string {
+  return turns.map(turn => {
+    switch (turn.role) {
+      case 'user':
+        return `User: ${typeof turn.content === 'string' ? turn.content : turn.content.map(p => p.type === 'text' ? p.text : '[image]').join(' ')}`;
+      case 'assistant': {
+        const calls = (turn.tool_calls ?? []).map(c => `${c.function.name}(${c.function.arguments})`);
+        return [turn.content && `Assistant: ${turn.content}`, calls.length > 0 && `Assistant called: ${calls.join(', ')}`]
+          .filter(Boolean).join('\n');
+      }
+      case 'tool':
+        return `Tool result: ${turn.content.length > 500 ? `${turn.content.slice(0, 500)}…` : turn.content}`;
+      default:
+        return '';
+    }
+  }).filter(Boolean).join('\n');
+}
+
+// Drop what isn't worth keeping: images, reasoning traces and the bulk of large tool results
+function toStoredTurn(turn: ChatMessage): ChatMessage {
+  switch (turn.role) {
+    case 'user':
+      return typeof turn.content === 'string'
+        ? turn
+        : { role: 'user', content: turn.content.map(p => p.type === 'text' ? p.text : '[image]').join('\n') };
+    case 'assistant': {
+      const { reasoning, ...rest } = turn;
+      return rest;
+    }
+    case 'tool':
+      return turn.content.length > TOOL_RESULT_MAX_CHARS
+        ? { ...turn, content: `${turn.content.slice(0, TOOL_RESULT_MAX_CHARS)}\n…(truncated)` }
+        : turn;
+    default:
+      return turn;
+  }
+}
+
+export class ConversationStore {
+  private db: Database.Database;
+
+  constructor(filename: string = CONVERSATIONS_PATH) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS turns (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        message TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS turns_conversation ON turns (conversation_id, id);
+      CREATE TABLE IF NOT EXISTS summaries (
+        conversation_id TEXT PRIMARY KEY,
+        summary TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `);
+  }
+
+  private rows(conversationId: string): TurnRow[] {
+    return this.db
+      .prepare('SELECT id, message FROM turns WHERE conversation_id = ? ORDER BY id')
+      .all(conversationId) as TurnRow[];
+  }
+
+  load(conversationId: string): Conversation {
+    const summary = this.db
+      .prepare('SELECT summary FROM summaries WHERE conversation_id = ?')
+      .get(conversationId) as { summary: string } | undefined;
+    return {
+      summary: summary?.summary,
+      turns: this.rows(conversationId).map(row => JSON.parse(row.message) as ChatMessage),
+    };
+  }
+
+  // Store the turns of one request: the user's message, then assistant and tool turns, ending with the answer
+  append(conversationId: string, turns: ChatMessage[]): void {
+    const insert = this.db.prepare('INSERT INTO turns (conversation_id, created_at, message) VALUES (?, ?, ?)');
+    const save = this.db.transaction(() => {
+      for (const turn of turns) {
+        insert.run(conversationId, Date.now(), JSON.stringify(toStoredTurn(turn)));
+      }
+    });
+    save();
+  }
+
+  forget(conversationId: string): void {
+    const clear = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM turns WHERE conversation_id = ?').run(conversationId);
+      this.db.prepare('DELETE FROM summaries WHERE conversation_id = ?').run(conversationId);
+    });
+    clear();
+  }
+
+  // Once the history is over budget, move the oldest exchanges (a user turn and everything up to the next one)
+  // out of it until it's back under half the budget, so this doesn't run on every message.
+  // The latest exchange always stays. Without a summarizer, or if it fails, old exchanges are just dropped.
+  async compact(conversationId: string, summarize?: Summarizer, budget: number = CONVERSATION_TOKEN_BUDGET): Promise<void> {
+    const rows = this.rows(conversationId);
+    const turns = rows.map(row => JSON.parse(row.message) as ChatMessage);
+    if (estimateTokens(turns) <= budget) return;
+
+    const starts = turns.flatMap((turn, i) => turn.role === 'user' ? [i] : []);
+    let cut = 0;
+    for (const start of starts.slice(1)) {
+      cut = start;
+      if (estimateTokens(turns.slice(cut)) <= budget / 2) break;
+    }
+    if (cut === 0) return;
+
+    const { summary } = this.load(conversationId);
+    let updated = summary;
+    if (summarize) {
+      try {
+        updated = await summarize(summary, turns.slice(0, cut));
+      } catch (error) {
+        log.warn('Failed to summarize conversation; dropping old turns instead', { conversationId, error });
+      }
+    }
+
+    const save = this.db.transaction(() => {
+      this.db.prepare('DELETE FROM turns WHERE conversation_id = ? AND id <= ?').run(conversationId, rows[cut - 1].id);
+      if (updated) {
+        this.db.prepare(`
+          INSERT INTO summaries (conversation_id, summary, updated_at) VALUES (?, ?, ?)
+          ON CONFLICT(conversation_id) DO UPDATE SET summary = excluded.summary, updated_at = excluded.updated_at
+        `).run(conversationId, updated, Date.now());
+      }
+    });
+    save();
+  }
+}
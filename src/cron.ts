@@ -0,0 +1,165 @@
+// ABOUTME: Five-field cron expressions (minute hour day-of-month month day-of-week) and their next run times
+// ABOUTME: Evaluated in an IANA time zone, so "0 9 * * MON" means 9:00 on Mondays in that zone
+
+const MINUTE_MS = 60_000;
+
+// Furthest ahead to look for a match; covers leap days
+const SEARCH_LIMIT_MS = 8 * 366 * 24 * 60 * MINUTE_MS;
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+};
+
+interface Field {
+  name: string;
+  min: number;
+  max: number;
+  // Names accepted in place of numbers, starting at min
+  names?: string[];
+}
+
+const FIELDS: Field[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // When both day fields are restricted, a day matching either one runs (standard cron behaviour)
+  eitherDay: boolean;
+}
+
+function parseValue(text: string, field: Field): number {
+  const named = field.names?.indexOf(text.toUpperCase()) ?? -1;
+  const value = named >= 0 ? named + field.min : Number(text);
+  if ((named < 0 && !/^\d+$/.test(text)) || value < field.min || value > field.max) {
+    throw new Error(`Invalid ${field.name} "${text}" in cron expression (allowed: ${field.min}-${field.max}).`);
+  }
+  return value;
+}
+
+// Comma-separated values, ranges (a-b) and steps (*/n, a-b/n, a/n)
+function parseField(text: string, field: Field): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const match = part.match(/^(\*|\w+)(?:-(\w+))?(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} "${part}" in cron expression.`);
+    }
+    const [, from, to, stepText] = match;
+    const step = stepText ? Number(stepText) : 1;
+    const start = from === '*' ? field.min : parseValue(from, field);
+    const end = from === '*' ? field.max : to ? parseValue(to, field) : stepText ? field.max : start;
+    if (step < 1 || start > end) {
+      throw new Error(`Invalid ${field.name} "${part}" in cron expression.`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const parts = normalized.split(/\s+/);
+  if (parts.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields (minute hour day-of-month month day-of-week), e.g. "0 9 * * MON".`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELDS[i]));
+  if (weekdays.delete(7)) weekdays.add(0);
+
+  return {
+    expression: normalized,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    eitherDay: !parts[2].startsWith('*') && !parts[4].startsWith('*'),
+  };
+}
+
+export function checkTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Unknown time zone "${timeZone}". Use an IANA name such as "UTC" or "Europe/Berlin".`);
+  }
+}
+
+interface ZonedTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedTime(time: number, timeZone: string): ZonedTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(time).map(p => [p.type, p.value]));
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
+
+function dayMatches(schedule: CronSchedule, time: ZonedTime): boolean {
+  const day = schedule.days.has(time.day);
+  const weekday = schedule.weekdays.has(time.weekday);
+  return schedule.eitherDay ? day || weekday : day && weekday;
+}
+
+// First matching minute strictly after `after`. Skips whole hours while the day or hour doesn't match.
+export function nextCronRun(schedule: CronSchedule, after: Date, timeZone: string): Date {
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = time + SEARCH_LIMIT_MS;
+
+  while (time < limit) {
+    const zoned = zonedTime(time, timeZone);
+    if (!schedule.months.has(zoned.month) || !dayMatches(schedule, zoned) || !schedule.hours.has(zoned.hour)) {
+      time += (60 - zoned.minute) * MINUTE_MS;
+    } else if (!schedule.minutes.has(zoned.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return new Date(time);
+    }
+  }
+  throw new Error(`Cron expression "${schedule.expression}" never runs.`);
+}
@@ -0,0 +1,235 @@
+// ABOUTME: Server, channel and thread resolution shared by the tools and both entrypoints
+// ABOUTME: Accepts names or IDs and reports ambiguous or missing targets as readable errors
+
+import {
+  ChannelType,
+  Client,
+  TextChannel,
+  NewsChannel,
+  ForumChannel,
+  MediaChannel,
+  ThreadChannel,
+  type CategoryChannel,
+  type Channel,
+  type Guild,
+  type GuildChannel,
+  type PermissionResolvable,
+  type GuildBasedChannel,
+  type GuildTextBasedChannel,
+  type Message,
+} from 'discord.js';
+
+// Opt into the privileged Server Members intent (also enable it in the Developer Portal).
+// Needed to list members and to see role membership.
+export const MEMBERS_INTENT = process.env.DISCORD_MEMBERS_INTENT === 'true';
+
+// Channels the bot can read from and post to: text, announcement, voice/stage text chats and threads (including forum posts)
+export type MessageChannel = GuildTextBasedChannel;
+
+// Channels that can own threads
+export type ThreadParentChannel = TextChannel | NewsChannel | ForumChannel | MediaChannel;
+
+export function isMessageChannel(channel: Channel | null): channel is MessageChannel {
+  return !!channel && channel.isTextBased() && !channel.isDMBased();
+}
+
+export function isThreadParent(channel: Channel | null): channel is ThreadParentChannel {
+  return channel instanceof TextChannel ||
+    channel instanceof NewsChannel ||
+    channel instanceof ForumChannel ||
+    channel instanceof MediaChannel;
+}
+
+// Human-readable channel label, e.g. "#general" or "#general › release-planning"
+export function describeChannel(channel: MessageChannel): string {
+  if (channel.isThread() && channel.parent) {
+    return `#${channel.parent.name} › ${channel.name}`;
+  }
+  return `#${channel.name}`;
+}
+
+// Replace <@id>, <#id> and <@&id> in message content with readable names; unknown IDs are left as they are
+export function resolveMentions(message: Message): string {
+  return message.content
+    .replace(/<@!?(\d+)>/g, (raw, id: string) => {
+      const member = message.mentions.members?.get(id);
+      const user = message.mentions.users.get(id);
+      const name = member?.displayName ?? user?.displayName ?? user?.username;
+      return name ? `@${name}` : raw;
+    })
+    .replace(/<#(\d+)>/g, (raw, id: string) => {
+      const channel = message.client.channels.cache.get(id);
+      return channel && 'name' in channel && channel.name ? `#${channel.name}` : raw;
+    })
+    .replace(/<@&(\d+)>/g, (raw, id: string) => {
+      const role = message.guild?.roles.cache.get(id);
+      return role ? `@${role.name}` : raw;
+    });
+}
+
+// Find a guild by name or ID
+export async function findGuild(client: Client, guildIdentifier?: string): Promise<Guild> {
+  if (!guildIdentifier) {
+    // If no guild specified and bot is only in one guild, use that
+    if (client.guilds.cache.size === 1) {
+      return client.guilds.cache.first()!;
+    }
+    // Don't list servers in error to avoid truncation
+    throw new Error(`Bot is in ${client.guilds.cache.size} servers. Use the list_servers tool to see available servers, then specify server name or ID.`);
+  }
+
+  // Try to fetch by ID first
+  try {
+    const guild = await client.guilds.fetch(guildIdentifier);
+    if (guild) return guild;
+  } catch {
+    // If ID fetch fails, search by name
+    const guilds = client.guilds.cache.filter(
+      g => g.name.toLowerCase() === guildIdentifier.toLowerCase()
+    );
+
+    if (guilds.size === 0) {
+      throw new Error(`Server "${guildIdentifier}" not found. Use the list_servers tool to see available servers.`);
+    }
+    if (guilds.size > 1) {
+      const guildList = guilds.map(g => `${g.name} (ID: ${g.id})`).join(', ');
+      throw new Error(`Multiple servers found with name "${guildIdentifier}": ${guildList}. Please specify the server ID.`);
+    }
+    return guilds.first()!;
+  }
+  throw new Error(`Server "${guildIdentifier}" not found`);
+}
+
+// Find a thread by name or ID inside its parent channel
+export async function findThread(parent: ThreadParentChannel, threadIdentifier: string): Promise<MessageChannel> {
+  const byId = parent.threads.cache.get(threadIdentifier);
+  if (byId) return byId;
+
+  // Search active threads first, then the most recent archived ones
+  const active = await parent.threads.fetchActive();
+  const archived = await parent.threads.fetchArchived({ limit: 100 }).catch(() => null);
+  const candidates = [
+    ...active.threads.values(),
+    ...(archived ? archived.threads.values() : []),
+  ].filter((t): t is ThreadChannel & MessageChannel => isMessageChannel(t) && t.parentId === parent.id);
+
+  const matchById = candidates.find(t => t.id === threadIdentifier);
+  if (matchById) return matchById;
+
+  const matches = candidates.filter(t => t.name.toLowerCase() === threadIdentifier.toLowerCase());
+  if (matches.length === 0) {
+    throw new Error(`Thread "${threadIdentifier}" not found in #${parent.name}. Use the list_servers tool to see active threads.`);
+  }
+  if (matches.length > 1) {
+    const threadList = matches.map(t => `${t.name} (${t.id})`).join(', ');
+    throw new Error(`Multiple threads found with name "${threadIdentifier}" in #${parent.name}: ${threadList}. Please specify the thread ID.`);
+  }
+  return matches[0];
+}
+
+// Find a channel by name or ID within a specific guild,
+// optionally narrowing down to a thread inside that channel
+export async function findChannel(
+  client: Client,
+  channelIdentifier: string,
+  guildIdentifier?: string,
+  threadIdentifier?: string
+): Promise<MessageChannel> {
+  const guild = await findGuild(client, guildIdentifier);
+
+  // When a thread is requested, forum and media channels are valid parents too
+  if (threadIdentifier) {
+    const parent = await findGuildChannel(client, guild, channelIdentifier, isThreadParent);
+    return findThread(parent, threadIdentifier);
+  }
+  return findGuildChannel(client, guild, channelIdentifier, isMessageChannel);
+}
+
+// Find a channel that can hold threads (text, announcement, forum or media) by name or ID
+export async function findThreadParent(
+  client: Client,
+  channelIdentifier: string,
+  guildIdentifier?: string
+): Promise<ThreadParentChannel> {
+  const guild = await findGuild(client, guildIdentifier);
+  return findGuildChannel(client, guild, channelIdentifier, isThreadParent);
+}
+
+// Find a category by name or ID
+export function findCategory(guild: Guild, categoryIdentifier: string): CategoryChannel {
+  const categories = guild.channels.cache.filter(
+    (c): c is CategoryChannel => c.type === ChannelType.GuildCategory &&
+      (c.id === categoryIdentifier || c.name.toLowerCase() === categoryIdentifier.toLowerCase())
+  );
+  if (categories.size === 0) {
+    throw new Error(`Category "${categoryIdentifier}" not found in server "${guild.name}".`);
+  }
+  if (categories.size > 1) {
+    const list = categories.map(c => `${c.name} (${c.id})`).join(', ');
+    throw new Error(`Multiple categories found with name "${categoryIdentifier}" in server "${guild.name}": ${list}. Please specify the category ID.`);
+  }
+  return categories.first()!;
+}
+
+// "ManageChannels" -> "Manage Channels"
+function permissionLabel(permission: string): string {
+  return permission.replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+// Throw a readable error when the bot lacks permissions in a channel (or server-wide when no channel is given)
+export function checkBotPermissions(
+  guild: Guild,
+  channel: GuildChannel | ThreadChannel | null,
+  permissions: PermissionResolvable,
+  action: string
+): void {
+  const me = guild.members.me;
+  if (!me) return;
+  const granted = channel ? channel.permissionsFor(me) : me.permissions;
+  const missing = granted.missing(permissions);
+  if (missing.length > 0) {
+    const where = channel ? `#${channel.name}` : guild.name;
+    throw new Error(`The bot can't ${action}: it needs the ${missing.map(permissionLabel).join(', ')} permission${missing.length > 1 ? 's' : ''} in ${where}.`);
+  }
+}
+
+async function findGuildChannel<T extends MessageChannel | ThreadParentChannel>(
+  client: Client,
+  guild: Guild,
+  channelIdentifier: string,
+  accepts: (channel: Channel | null) => channel is T
+): Promise<T> {
+  // Clean the channel identifier (remove # if present)
+  const cleanChannelName = channelIdentifier.replace(/^#/, '');
+
+  let resolved: T | undefined;
+
+  // First try to fetch by ID
+  try {
+    const channel = await client.channels.fetch(cleanChannelName);
+    if (accepts(channel) && channel.guild.id === guild.id) {
+      resolved = channel;
+    }
+  } catch {
+    // If fetching by ID fails, search by name in the specified guild
+    const channels = guild.channels.cache.filter(
+      (channel): channel is GuildBasedChannel & T =>
+        accepts(channel) &&
+        channel.name.toLowerCase() === cleanChannelName.toLowerCase()
+    );
+
+    if (channels.size === 0) {
+      throw new Error(`Channel "${channelIdentifier}" not found in server "${guild.name}". Use the list_servers tool to see available channels.`);
+    }
+    if (channels.size > 1) {
+      const channelList = channels.map(c => `#${c.name} (${c.id})`).join(', ');
+      throw new Error(`Multiple channels found with name "${channelIdentifier}" in server "${guild.name}": ${channelList}. Please specify the channel ID.`);
+    }
+    resolved = channels.first();
+  }
+
+  if (!resolved) {
+    throw new Error(`Channel "${channelIdentifier}" is not a text channel or not found in server "${guild.name}"`);
+  }
+  return resolved;
+}
@@ -0,0 +1,23 @@
+// ABOUTME: Short durations such as 30m, 12h, 3d or 1w, used by slash commands, tools and prompts
+// ABOUTME: parseSince turns one into the start date that far back
+
+const DURATION_UNITS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+// Parse "30m", "12h", "3d" or "1w" into milliseconds
+export function parseDuration(value: string): number {
+  const match = value.trim().toLowerCase().match(/^(\d+)\s*([mhdw])$/);
+  if (!match) {
+    throw new Error(`Couldn't understand "${value}". Use a number followed by m, h, d or w, e.g. 12h or 7d.`);
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+// Parse a duration into the start date that far back
+export function parseSince(value: string): Date {
+  return new Date(Date.now() - parseDuration(value));
+}
@@ -0,0 +1,151 @@
+// ABOUTME: Paginated message history reads shared by both entrypoints
+// ABOUTME: Walks Discord's 100-message pages between ID cursors or ISO date bounds
+
+import { Message, SnowflakeUtil, type GuildTextBasedChannel } from 'discord.js';
+
+// Discord returns at most 100 messages per request
+const PAGE_SIZE = 100;
+
+// Upper bound on messages a single read may page through (configurable)
+export const READ_MESSAGES_MAX_LIMIT = Number(process.env.READ_MESSAGES_MAX_LIMIT) || 500;
+
+export interface HistoryOptions {
+  limit?: number;
+  before?: string;
+  after?: string;
+  around?: string;
+  start_date?: string;
+  end_date?: string;
+}
+
+export interface HistoryResult {
+  // Messages in chronological order (oldest first)
+  messages: Message[];
+  // Arguments to pass back to continue reading in the same direction, if more history may exist.
+  // A backward walk keeps its lower bound so the next page doesn't run past it.
+  nextCursor?: { before: string; after?: string; start_date?: string } | { after: string };
+}
+
+function parseSnowflake(value: string, field: string): bigint {
+  if (!/^\d{15,21}$/.test(value)) {
+    throw new Error(`Invalid ${field} "${value}". Expected a Discord message ID.`);
+  }
+  return BigInt(value);
+}
+
+function dateToSnowflake(value: string, field: string): bigint {
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid ${field} "${value}". Use an ISO 8601 date such as 2024-05-01 or 2024-05-01T09:00:00Z.`);
+  }
+  return BigInt(SnowflakeUtil.generate({ timestamp }).toString());
+}
+
+// Fetch a single message by ID, with an error the model can act on when it isn't in the channel.
+// force skips the cache, whose reactions go stale because the bot doesn't subscribe to reaction events.
+export async function fetchMessage(channel: GuildTextBasedChannel, messageId: string, field: string = 'message_id', force = false): Promise<Message> {
+  parseSnowflake(messageId, field);
+  try {
+    return await channel.messages.fetch({ message: messageId, force });
+  } catch {
+    throw new Error(`Message ${messageId} not found in #${channel.name}. Message IDs only work within the channel or thread they were posted in.`);
+  }
+}
+
+// Fetch up to `limit` messages, paging through the API as needed.
+// With only a lower bound (after/start_date) the walk goes forward in time,
+// otherwise it goes backward from the upper bound (before/end_date) or the latest message.
+export async function fetchMessageHistory(
+  channel: GuildTextBasedChannel,
+  options: HistoryOptions
+): Promise<HistoryResult> {
+  const limit = Math.max(1, Math.min(options.limit ?? 50, READ_MESSAGES_MAX_LIMIT));
+
+  if (options.around) {
+    parseSnowflake(options.around, 'around');
+    const page = await channel.messages.fetch({ around: options.around, limit: Math.min(limit, PAGE_SIZE) });
+    return { messages: Array.from(page.values()).sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1)) };
+  }
+
+  // Exclusive bounds expressed as snowflakes; the tighter of ID and date wins
+  const lowerCandidates = [
+    options.after ? parseSnowflake(options.after, 'after') : undefined,
+    options.start_date ? dateToSnowflake(options.start_date, 'start_date') - 1n : undefined,
+  ].filter((v): v is bigint => v !== undefined);
+  const upperCandidates = [
+    options.before ? parseSnowflake(options.before, 'before') : undefined,
+    options.end_date ? dateToSnowflake(options.end_date, 'end_date') : undefined,
+  ].filter((v): v is bigint => v !== undefined);
+
+  const lower = lowerCandidates.length ? lowerCandidates.reduce((a, b) => (a > b ? a : b)) : undefined;
+  const upper = upperCandidates.length ? upperCandidates.reduce((a, b) => (a < b ? a : b)) : undefined;
+
+  if (lower !== undefined && upper !== undefined && lower >= upper) {
+    throw new Error('The requested range is empty: the lower bound is not before the upper bound.');
+  }
+
+  const inRange = (msg: Message) => {
+    const id = BigInt(msg.id);
+    return (lower === undefined || id > lower) && (upper === undefined || id < upper);
+  };
+
+  const collected: Message[] = [];
+  let exhausted = false;
+
+  if (lower !== undefined && upper === undefined) {
+    // Forward walk: each page holds the oldest messages after the cursor
+    let cursor = lower.toString();
+    while (collected.length < limit) {
+      const pageSize = Math.min(PAGE_SIZE, limit - collected.length);
+      const page = await channel.messages.fetch({ after: cursor, limit: pageSize });
+      const ordered = Array.from(page.values()).sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1));
+      collected.push(...ordered.filter(inRange));
+      if (page.size < pageSize) {
+        exhausted = true;
+        break;
+      }
+      cursor = ordered[ordered.length - 1].id;
+    }
+
+    const newest = collected[collected.length - 1];
+    return {
+      messages: collected,
+      nextCursor: !exhausted && newest ? { after: newest.id } : undefined,
+    };
+  }
+
+  // Backward walk: each page holds the newest messages before the cursor
+  let cursor = upper?.toString();
+  while (collected.length < limit) {
+    const pageSize = Math.min(PAGE_SIZE, limit - collected.length);
+    const page = await channel.messages.fetch(cursor ? { before: cursor, limit: pageSize } : { limit: pageSize });
+    const ordered = Array.from(page.values()).sort((a, b) => (BigInt(a.id) > BigInt(b.id) ? -1 : 1));
+    const kept = ordered.filter(inRange);
+    collected.push(...kept);
+    if (page.size < pageSize || kept.length < ordered.length) {
+      exhausted = true;
+      break;
+    }
+    cursor = ordered[ordered.length - 1].id;
+  }
+
+  collected.reverse();
+  const oldest = collected[0];
+  return {
+    messages: collected,
+    nextCursor: !exhausted && oldest
+      ? {
+          before: oldest.id,
+          ...(options.after ? { after: options.after } : {}),
+          ...(options.start_date ? { start_date: options.start_date } : {}),
+        }
+      : undefined,
+  };
+}
+
+// Describe how to continue reading, for inclusion in tool output
+export function describeCursor(nextCursor: HistoryResult['nextCursor']): string {
+  if (!nextCursor) return 'No more messages in this range.';
+  const args = Object.entries(nextCursor).map(([key, value]) => `${key}="${value}"`).join(' and ');
+  return `More messages available: read again with ${args} to continue.`;
+}
@@ -1,15 +1,17 @@
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import dotenv from 'dotenv';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import { Client, GatewayIntentBits, TextChannel } from 'discord.js';
-import { z } from 'zod';
-
-// Load environment variables
-dotenv.config();
+// Load environment variables before any module reads its configuration
+import 'dotenv/config';
+import { Client, GatewayIntentBits } from 'discord.js';
+import { MessageArchive } from './archive.js';
+import { Scheduler } from './scheduler.js';
+import { UsageTracker } from './usage.js';
+import { AuditLog } from './audit.js';
+import { createLogger } from './logger.js';
+import { Policy } from './policy.js';
+import { MEMBERS_INTENT } from './discord.js';
+import { createMcpServer } from './mcp.js';
+import { startTransports, transportMode } from './transport.js';
+
+const log = createLogger('main');
 
 // Discord client setup
 const client = new Client({
@@ -17,241 +19,32 @@ const client = new Client({
     GatewayIntentBits.Guilds,
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent,
+    ...(MEMBERS_INTENT ? [GatewayIntentBits.GuildMembers] : []),
   ],
 });
 
-// Helper function to find a guild by name or ID
-async function findGuild(guildIdentifier?: string) {
-  if (!guildIdentifier) {
-    // If no guild specified and bot is only in one guild, use that
-    if (client.guilds.cache.size === 1) {
-      return client.guilds.cache.first()!;
-    }
-    // Don't list servers in error to avoid truncation
-    throw new Error(`Bot is in ${client.guilds.cache.size} servers. Use 'list-servers' tool to see available servers, then specify server name or ID.`);
-  }
+// Local message archive for full-text search
+const archive = new MessageArchive();
+archive.attach(client);
 
-  // Try to fetch by ID first
-  try {
-    const guild = await client.guilds.fetch(guildIdentifier);
-    if (guild) return guild;
-  } catch {
-    // If ID fetch fails, search by name
-    const guilds = client.guilds.cache.filter(
-      g => g.name.toLowerCase() === guildIdentifier.toLowerCase()
-    );
-    
-    if (guilds.size === 0) {
-      throw new Error(`Server "${guildIdentifier}" not found. Use 'list-servers' tool to see available servers.`);
-    }
-    if (guilds.size > 1) {
-      const guildList = guilds.map(g => `${g.name} (ID: ${g.id})`).join(', ');
-      throw new Error(`Multiple servers found with name "${guildIdentifier}": ${guildList}. Please specify the server ID.`);
-    }
-    return guilds.first()!;
-  }
-  throw new Error(`Server "${guildIdentifier}" not found`);
-}
+// Scheduled posts; without the LLM bot only fixed messages can be scheduled
+const scheduler = new Scheduler();
 
-// Helper function to find a channel by name or ID within a specific guild
-async function findChannel(channelIdentifier: string, guildIdentifier?: string): Promise<TextChannel> {
-  const guild = await findGuild(guildIdentifier);
-  
-  // First try to fetch by ID
-  try {
-    const channel = await client.channels.fetch(channelIdentifier);
-    if (channel instanceof TextChannel && channel.guild.id === guild.id) {
-      return channel;
-    }
-  } catch {
-    // If fetching by ID fails, search by name in the specified guild
-    const channels = guild.channels.cache.filter(
-      (channel): channel is TextChannel =>
-        channel instanceof TextChannel &&
-        (channel.name.toLowerCase() === channelIdentifier.toLowerCase() ||
-         channel.name.toLowerCase() === channelIdentifier.toLowerCase().replace('#', ''))
-    );
+const toolContext = { client, archive, policy: Policy.load(), scheduler, usage: new UsageTracker(), audit: new AuditLog() };
 
-    if (channels.size === 0) {
-      throw new Error(`Channel "${channelIdentifier}" not found in server "${guild.name}". Use 'list-servers' tool to see available channels.`);
-    }
-    if (channels.size > 1) {
-      const channelList = channels.map(c => `#${c.name} (${c.id})`).join(', ');
-      throw new Error(`Multiple channels found with name "${channelIdentifier}" in server "${guild.name}": ${channelList}. Please specify the channel ID.`);
-    }
-    return channels.first()!;
-  }
-  throw new Error(`Channel "${channelIdentifier}" is not a text channel or not found in server "${guild.name}"`);
-}
-
-// Updated validation schemas
-const SendMessageSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  channel: z.string().describe('Channel name (e.g., "general") or ID'),
-  message: z.string(),
-});
-
-const ReadMessagesSchema = z.object({
-  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
-  channel: z.string().describe('Channel name (e.g., "general") or ID'),
-  limit: z.number().min(1).max(100).default(50),
-});
-
-// Create server instance
-const server = new Server(
+// Create a server instance per MCP connection
+const createServer = () => createMcpServer(
   {
     name: "discord",
     version: "1.0.0",
   },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
+  toolContext
 );
 
-// List available tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "list-servers",
-        description: "List all Discord servers the bot is connected to",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
-        },
-      },
-      {
-        name: "send-message",
-        description: "Send a message to a Discord channel",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channel: {
-              type: "string",
-              description: 'Channel name (e.g., "general") or ID',
-            },
-            message: {
-              type: "string",
-              description: "Message content to send",
-            },
-          },
-          required: ["channel", "message"],
-        },
-      },
-      {
-        name: "read-messages",
-        description: "Read recent messages from a Discord channel",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channel: {
-              type: "string",
-              description: 'Channel name (e.g., "general") or ID',
-            },
-            limit: {
-              type: "number",
-              description: "Number of messages to fetch (max 100)",
-              default: 50,
-            },
-          },
-          required: ["channel"],
-        },
-      },
-    ],
-  };
-});
-
-// Handle tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "list-servers": {
-        const servers = Array.from(client.guilds.cache.values()).map(guild => ({
-          id: guild.id,
-          name: guild.name,
-          memberCount: guild.memberCount,
-          channels: guild.channels.cache
-            .filter((c): c is TextChannel => c instanceof TextChannel)
-            .map(c => ({
-              id: c.id,
-              name: c.name,
-            }))
-            .slice(0, 10), // Limit to first 10 channels to avoid huge responses
-        }));
-        
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(servers, null, 2),
-          }],
-        };
-      }
-
-      case "send-message": {
-        const { server, channel: channelIdentifier, message } = SendMessageSchema.parse(args);
-        const channel = await findChannel(channelIdentifier, server);
-        
-        const sent = await channel.send(message);
-        return {
-          content: [{
-            type: "text",
-            text: `Message sent successfully to #${channel.name} in ${channel.guild.name}. Message ID: ${sent.id}`,
-          }],
-        };
-      }
-
-      case "read-messages": {
-        const { server, channel: channelIdentifier, limit } = ReadMessagesSchema.parse(args);
-        const channel = await findChannel(channelIdentifier, server);
-        
-        const messages = await channel.messages.fetch({ limit });
-        const formattedMessages = Array.from(messages.values()).map(msg => ({
-          channel: `#${channel.name}`,
-          server: channel.guild.name,
-          author: msg.author.tag,
-          content: msg.content,
-          timestamp: msg.createdAt.toISOString(),
-        }));
-
-        return {
-          content: [{
-            type: "text",
-            text: JSON.stringify(formattedMessages, null, 2),
-          }],
-        };
-      }
-
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new Error(
-        `Invalid arguments: ${error.errors
-          .map((e) => `${e.path.join(".")}: ${e.message}`)
-          .join(", ")}`
-      );
-    }
-    throw error;
-  }
-});
-
 // Discord client login and error handling
 client.once('ready', () => {
-  console.error('Discord bot is ready!');
+  log.info('Discord bot is ready', { user: client.user?.tag });
+  scheduler.start(toolContext);
 });
 
 // Start the server
@@ -263,15 +56,15 @@ async function main() {
   }
   
   try {
+    const mode = transportMode();
+
     // Login to Discord
     await client.login(token);
 
     // Start MCP server
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("Discord MCP Server running on stdio");
+    await startTransports(createServer, mode);
   } catch (error) {
-    console.error("Fatal error in main():", error);
+    log.error('Fatal error in main()', { error });
     process.exit(1);
   }
 }
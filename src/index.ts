@@ -1,18 +1,29 @@
 // ABOUTME: Enhanced version with recursive tool calling support
 // ABOUTME: Handles multiple rounds of tool calls and parameter name variations
 
-import { Server } from "@modelcontextprotocol/sdk/server/index.js";
-import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import dotenv from 'dotenv';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from "@modelcontextprotocol/sdk/types.js";
-import { Client, GatewayIntentBits, TextChannel, Message, Partials } from 'discord.js';
-import { z } from 'zod';
-import fetch from 'node-fetch';
-
-dotenv.config();
+// Load environment variables before any module reads its configuration
+import 'dotenv/config';
+import { Client, GatewayIntentBits, Message, Partials, PermissionFlagsBits } from 'discord.js';
+import { MessageArchive } from './archive.js';
+import { Scheduler, type ScheduledJob } from './scheduler.js';
+import { UsageLimitError, UsageTracker, type UsageSubject } from './usage.js';
+import { CONVERSATION_TOKEN_BUDGET, ConversationStore, formatTurns, type Summarizer } from './conversations.js';
+import { toolRegistry, formatToolError, toToolContent, toolResultText, type ToolContext, type ToolResult } from './tools/index.js';
+import { createMcpServer } from './mcp.js';
+import { startTransports, transportMode } from './transport.js';
+import { createProviderFromEnv, type AssistantMessage, type ChatMessage, type CompletionRequest, type CompletionResponse, type ContentPart, type ToolCall } from './llm/index.js';
+import { cleanModelText, parseTextToolCalls, stripToolCallMarkup } from './llm/text-tool-calls.js';
+import { StreamingReply } from './streaming-reply.js';
+import { handleInteraction, registerSlashCommands, type CommandDeps } from './commands.js';
+import { BotConfig, DEFAULT_PERSONA, triggeredPrompt, type ConfigChannel } from './bot-config.js';
+import { Policy, type ToolCaller } from './policy.js';
+import { MEMBERS_INTENT } from './discord.js';
+import { attachmentKind, readImageAttachment, type ImageData } from './attachments.js';
+import { AuditLog } from './audit.js';
+import { createLogger, newRequestId, withLogContext } from './logger.js';
+import { describeDecision, requestConfirmation, type ConfirmationDecision, type ConfirmationRequest } from './confirmation.js';
+
+const log = createLogger('bot');
 
 // Discord client setup with additional intents for message handling
 const client = new Client({
@@ -21,6 +32,7 @@ const client = new Client({
     GatewayIntentBits.GuildMessages,
     GatewayIntentBits.MessageContent,
     GatewayIntentBits.DirectMessages,
+    ...(MEMBERS_INTENT ? [GatewayIntentBits.GuildMembers] : []),
   ],
   partials: [
     Partials.Channel, // Required for DM channels
@@ -28,633 +40,560 @@ const client = new Client({
   ],
 });
 
-// LLM Configuration
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-const LLM_MODEL = process.env.LLM_MODEL || 'anthropic/claude-3.5-sonnet';
+// Local message archive for full-text search
+const archive = new MessageArchive();
+archive.attach(client);
 
-// Define tools in OpenAI function format for the LLM
-const discordTools = [
-  {
-    type: 'function',
-    function: {
-      name: 'read_messages',
-      description: 'Read recent messages from a Discord channel',
-      parameters: {
-        type: 'object',
-        properties: {
-          channel: {
-            type: 'string',
-            description: 'Channel name (e.g., "general" or "#general") or channel ID',
-          },
-          limit: {
-            type: 'number',
-            description: 'Number of messages to fetch (max 100)',
-            default: 50,
-          },
-          server: {
-            type: 'string',
-            description: 'Server name or ID (optional if bot is only in one server)',
-          },
-        },
-        required: ['channel'],
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'list_servers',
-      description: 'List all Discord servers and channels the bot has access to',
-      parameters: {
-        type: 'object',
-        properties: {},
-      },
-    },
-  },
-  {
-    type: 'function',
-    function: {
-      name: 'send_message',
-      description: 'Send a message to a Discord channel',
-      parameters: {
-        type: 'object',
-        properties: {
-          channel: {
-            type: 'string',
-            description: 'Channel name or ID',
-          },
-          message: {
-            type: 'string',
-            description: 'Message content to send',
-          },
-          server: {
-            type: 'string',
-            description: 'Server name or ID (optional)',
-          },
-        },
-        required: ['channel', 'message'],
-      },
-    },
-  },
-];
+// LLM Configuration (provider, model and sampling settings come from the environment)
+const llm = createProviderFromEnv();
 
-// Helper function to find a guild by name or ID
-async function findGuild(guildIdentifier?: string) {
-  if (!guildIdentifier) {
-    if (client.guilds.cache.size === 1) {
-      return client.guilds.cache.first()!;
-    }
-    throw new Error(`Bot is in ${client.guilds.cache.size} servers. Please specify server name or ID.`);
+// Stream completions into progressively edited replies (set LLM_STREAMING=false to post only finished answers)
+const LLM_STREAMING = process.env.LLM_STREAMING !== 'false';
+
+// Reaction left on a mention while the bot works on it (ACK_REACTION=none to disable)
+const ACK_REACTION = process.env.ACK_REACTION ?? '👀';
+
+// Ask the requesting user to approve mutating tool calls before they run
+const CONFIRM_WRITES = process.env.CONFIRM_WRITES === 'true';
+
+// Persona, prompt, model and trigger settings per server and channel; edits to the file apply without a restart
+const botConfig = BotConfig.load();
+botConfig.watch();
+
+// A whole number of at least 0 from the environment; anything else stops startup with the variable named
+function nonNegativeIntegerEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a whole number of 0 or more, got "${value}"`);
   }
+  return parsed;
+}
+
+// Tool rounds per request before the model has to answer with what it has (0 answers without tools)
+const TOOL_MAX_ROUNDS = nonNegativeIntegerEnv('TOOL_MAX_ROUNDS', 5);
+
+// Tokens one request may spend across its LLM calls before the model has to answer (0 for no limit)
+const TOOL_TOKEN_BUDGET = nonNegativeIntegerEnv('TOOL_TOKEN_BUDGET', 0);
+
+// Models whose tool calls written as reply text are run: "all" (default), model names or prefixes, or "none"
+const TEXT_TOOL_CALL_MODELS = (process.env.LLM_TEXT_TOOL_CALLS || 'all').split(',').map(model => model.trim()).filter(model => model && model !== 'none');
+
+// Read/write allow and deny lists, role rules and dry-run mode for every tool call
+const policy = Policy.load();
+
+// Scheduled and recurring posts, including LLM prompts run on a schedule
+const scheduler = new Scheduler(runScheduledPrompt);
+
+// Token and cost accounting, rate limits and daily quotas for LLM requests
+const usage = new UsageTracker();
 
+const toolContext: ToolContext = { client, archive, policy, scheduler, usage, audit: new AuditLog() };
+
+// Earlier user, assistant and tool turns per channel, thread or DM, so follow-up questions keep their context
+const conversations = new ConversationStore();
+
+// Tools in OpenAI function format for the LLM, generated from the shared registry
+const discordTools = toolRegistry.toOpenAITools();
+
+// Execute Discord tools for the LLM; errors come back as text the model can react to
+async function executeDiscordTool(toolName: string, args: any, options: ToolLoopOptions, dryRun?: boolean): Promise<ToolResult> {
   try {
-    const guild = await client.guilds.fetch(guildIdentifier);
-    if (guild) return guild;
-  } catch {
-    const guilds = client.guilds.cache.filter(
-      g => g.name.toLowerCase() === guildIdentifier.toLowerCase()
-    );
-    
-    if (guilds.size === 0) {
-      throw new Error(`Server "${guildIdentifier}" not found.`);
-    }
-    if (guilds.size > 1) {
-      const guildList = guilds.map(g => `${g.name} (ID: ${g.id})`).join(', ');
-      throw new Error(`Multiple servers found with name "${guildIdentifier}": ${guildList}`);
-    }
-    return guilds.first()!;
+    return await toolRegistry.execute(toolName, args, { ...toolContext, caller: options.caller, guildId: options.guildId, dryRun });
+  } catch (error) {
+    return `Error executing tool: ${formatToolError(error)}`;
   }
-  throw new Error(`Server "${guildIdentifier}" not found`);
 }
 
-// Helper function to find a channel by name or ID within a specific guild
-async function findChannel(channelIdentifier: string, guildIdentifier?: string): Promise<TextChannel> {
-  const guild = await findGuild(guildIdentifier);
-  
-  // Clean the channel identifier (remove # if present)
-  const cleanChannelName = channelIdentifier.replace(/^#/, '');
-  
-  try {
-    const channel = await client.channels.fetch(cleanChannelName);
-    if (channel instanceof TextChannel && channel.guild.id === guild.id) {
-      return channel;
-    }
-  } catch {
-    const channels = guild.channels.cache.filter(
-      (channel): channel is TextChannel =>
-        channel instanceof TextChannel &&
-        (channel.name.toLowerCase() === cleanChannelName.toLowerCase())
-    );
+// Run a tool, first asking for approval if it mutates Discord and confirmation is enabled.
+// The dry-run preview also surfaces validation and policy errors before anyone is prompted.
+async function executeWithConfirmation(toolName: string, args: any, options: ToolLoopOptions): Promise<ToolResult> {
+  if (!options.confirm || !toolRegistry.isMutating(toolName) || policy.dryRun) {
+    return executeDiscordTool(toolName, args, options);
+  }
 
-    if (channels.size === 0) {
-      throw new Error(`Channel "${channelIdentifier}" not found in server "${guild.name}".`);
-    }
-    if (channels.size > 1) {
-      const channelList = channels.map(c => `#${c.name} (${c.id})`).join(', ');
-      throw new Error(`Multiple channels found with name "${channelIdentifier}": ${channelList}`);
-    }
-    return channels.first()!;
+  const preview = toolResultText(await executeDiscordTool(toolName, args, options, true));
+  if (preview.startsWith('Error executing tool:')) {
+    return preview;
   }
-  throw new Error(`Channel "${channelIdentifier}" not found`);
+
+  options.onToolCall?.('waiting for approval');
+  const decision = await options.confirm({ toolName, preview });
+  log.info('Confirmation', { tool: toolName, decision });
+  if (decision !== 'approved') {
+    return describeDecision(decision);
+  }
+
+  return executeDiscordTool(toolName, args, options);
 }
 
-// Normalize tool arguments to handle variations in parameter names
-function normalizeToolArgs(toolName: string, args: any): any {
-  const normalized = { ...args };
-  
-  // Map common variations to standard names
-  const mappings: Record<string, Record<string, string>> = {
-    read_messages: {
-      'channel_name': 'channel',
-      'server_name': 'server',
-      'message_limit': 'limit',
-      'max_messages': 'limit',
-    },
-    send_message: {
-      'channel_name': 'channel',
-      'server_name': 'server',
-      'content': 'message',
-      'text': 'message',
-    },
-  };
-  
-  if (mappings[toolName]) {
-    for (const [wrongName, correctName] of Object.entries(mappings[toolName])) {
-      if (wrongName in normalized && !(correctName in normalized)) {
-        normalized[correctName] = normalized[wrongName];
-        delete normalized[wrongName];
-      }
+// Per-request settings plus progress callbacks so a caller such as a streaming reply can follow the tool loop
+interface ToolLoopOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // The Discord user behind the request, checked against role rules for write actions
+  caller?: ToolCaller;
+  // Server the request came from, for rate limits and usage accounting (null in DMs)
+  guildId?: string | null;
+  // When set, mutating tools wait for this approval step before running
+  confirm?: (request: ConfirmationRequest) => Promise<ConfirmationDecision>;
+  // Images sent along with the prompt, for multimodal models
+  images?: ImageData[];
+  // Earlier turns of the conversation, placed between the system prompt and the new prompt
+  history?: ChatMessage[];
+  // Collects this request's user, assistant and tool turns, ending with the final answer
+  transcript?: ChatMessage[];
+  // Stops the loop between LLM calls and tool rounds, and aborts LLM calls in flight
+  signal?: AbortSignal;
+  onText?: (delta: string) => void;
+  onToolCall?: (status: string) => void;
+}
+
+function isKnownTool(name: string): boolean {
+  return toolRegistry.get(name) !== undefined;
+}
+
+// Tool calls some models write into their reply text instead of tool_calls, unless LLM_TEXT_TOOL_CALLS leaves the model out
+function textToolCalls(assistantMessage: AssistantMessage, model: string): AssistantMessage | null {
+  if (!assistantMessage.content) return null;
+  if (!TEXT_TOOL_CALL_MODELS.some(entry => entry === 'all' || model.startsWith(entry))) return null;
+  const { calls, text } = parseTextToolCalls(assistantMessage.content, isKnownTool);
+  if (calls.length === 0) return null;
+  log.info('Recovered tool calls from text', { model, calls: calls.length });
+  return { ...assistantMessage, content: text || null, tool_calls: calls };
+}
+
+// The text of a final answer, recorded in the transcript. Tool calls written as text that weren't run
+// are cut rather than posted as raw markup.
+function finalAnswer(assistantMessage: AssistantMessage, options: ToolLoopOptions, fallback = 'I processed your request.'): string {
+  const raw = assistantMessage.content ?? '';
+  const text = parseTextToolCalls(raw, isKnownTool).calls.length > 0 ? '' : cleanModelText(stripToolCallMarkup(raw));
+  const content = text || assistantMessage.reasoning || fallback;
+  options.transcript?.push({ role: 'assistant', content });
+  return content;
+}
+
+// Consecutive read-only calls run together; a mutating call runs on its own so writes keep their order
+function batchToolCalls(calls: ToolCall[]): ToolCall[][] {
+  const batches: ToolCall[][] = [];
+  for (const call of calls) {
+    const last = batches[batches.length - 1];
+    if (last && !toolRegistry.isMutating(call.function.name) && !toolRegistry.isMutating(last[0].function.name)) {
+      last.push(call);
+    } else {
+      batches.push([call]);
     }
   }
-  
-  // Remove any parameters that aren't recognized (like start_date, end_date)
-  const validParams: Record<string, string[]> = {
-    read_messages: ['channel', 'server', 'limit'],
-    send_message: ['channel', 'server', 'message'],
-    list_servers: [],
+  return batches;
+}
+
+async function executeToolCall(toolCall: ToolCall, args: unknown, options: ToolLoopOptions): Promise<{ message: ChatMessage; images: ImageData[] }> {
+  const result = await executeWithConfirmation(toolCall.function.name, args, options);
+  const text = toolResultText(result);
+  return {
+    message: { role: 'tool', tool_call_id: toolCall.id, content: text },
+    images: toToolContent(result).filter(block => block.type === 'image'),
   };
-  
-  if (validParams[toolName]) {
-    for (const key of Object.keys(normalized)) {
-      if (!validParams[toolName].includes(key)) {
-        console.error(`Removing unrecognized parameter: ${key}`);
-        delete normalized[key];
-      }
+}
+
+// Run one round of tool calls, returning the results in call order
+async function executeToolCalls(calls: ToolCall[], options: ToolLoopOptions): Promise<{ results: ChatMessage[]; images: ImageData[] }> {
+  const results: ChatMessage[] = [];
+  const images: ImageData[] = [];
+  for (const batch of batchToolCalls(calls)) {
+    options.signal?.throwIfAborted();
+    const prepared = batch.map(toolCall => ({ toolCall, args: parseToolArguments(toolCall) }));
+    options.onToolCall?.(prepared.map(({ toolCall, args }) => toolRegistry.describeCall(toolCall.function.name, args)).join(', '));
+    for (const outcome of await Promise.all(prepared.map(({ toolCall, args }) => executeToolCall(toolCall, args, options)))) {
+      results.push(outcome.message);
+      images.push(...outcome.images);
     }
   }
-  
-  return normalized;
+  return { results, images };
 }
 
-// Execute Discord tools - reuses existing logic
-async function executeDiscordTool(toolName: string, args: any): Promise<string> {
+// Empty or malformed arguments fall back to {} so tools without required parameters still run
+function parseToolArguments(toolCall: ToolCall): unknown {
   try {
-    // Normalize arguments first
-    const normalizedArgs = normalizeToolArgs(toolName, args);
-    
-    switch (toolName) {
-      case 'list_servers': {
-        const servers = Array.from(client.guilds.cache.values()).map(guild => ({
-          name: guild.name,
-          id: guild.id,
-          memberCount: guild.memberCount,
-          channels: guild.channels.cache
-            .filter((c): c is TextChannel => c instanceof TextChannel)
-            .map(c => `#${c.name}`)
-            .slice(0, 20), // Limit channels shown
-        }));
-        
-        return JSON.stringify(servers, null, 2);
-      }
-
-      case 'read_messages': {
-        const { channel: channelIdentifier, limit = 50, server } = normalizedArgs;
-        const channel = await findChannel(channelIdentifier, server);
-        
-        const messages = await channel.messages.fetch({ limit: Math.min(limit, 100) });
-        const formattedMessages = Array.from(messages.values())
-          .reverse() // Show oldest first
-          .map(msg => ({
-            author: msg.author.tag,
-            content: msg.content,
-            timestamp: msg.createdAt.toISOString(),
-            attachments: msg.attachments.map(a => a.url),
-          }));
-
-        return `Messages from #${channel.name} in ${channel.guild.name}:\n${JSON.stringify(formattedMessages, null, 2)}`;
-      }
-
-      case 'send_message': {
-        const { channel: channelIdentifier, message, server } = normalizedArgs;
-        const channel = await findChannel(channelIdentifier, server);
-        
-        const sent = await channel.send(message);
-        return `Message sent successfully to #${channel.name} in ${channel.guild.name}. Message ID: ${sent.id}`;
-      }
-
-      default:
-        throw new Error(`Unknown tool: ${toolName}`);
+    if (toolCall.function.arguments && toolCall.function.arguments.trim() !== '') {
+      return JSON.parse(toolCall.function.arguments);
     }
-  } catch (error) {
-    return `Error executing tool: ${error instanceof Error ? error.message : String(error)}`;
+  } catch (parseError) {
+    log.warn('Failed to parse tool arguments', { tool: toolCall.function.name, error: parseError });
   }
+  return {};
 }
 
-// Recursive tool calling with depth limit
-async function executeToolsRecursively(
-  messages: any[], 
-  assistantMessage: any,
-  depth: number = 0
-): Promise<string> {
-  const MAX_DEPTH = 5; // Prevent infinite loops
-  
-  if (depth >= MAX_DEPTH) {
-    console.error(`Max tool calling depth (${MAX_DEPTH}) reached`);
-    return assistantMessage.reasoning || assistantMessage.content || 'Maximum tool calling depth reached.';
-  }
-  
-  if (!assistantMessage.tool_calls || assistantMessage.tool_calls.length === 0) {
-    // Check if content looks like a tool call attempt (JSON)
-    let content = assistantMessage.content;
-    
-    if (content && content.trim().startsWith('{') && content.includes('"channel"')) {
-      console.error('Detected JSON in content, attempting to parse as tool call...');
-      try {
-        const args = JSON.parse(content);
-        // Assume it's a read_messages call if it has channel
-        const toolName = args.message ? 'send_message' : 'read_messages';
-        
-        console.error(`Converting to ${toolName} tool call with args:`, args);
-        
-        // Create a synthetic tool call
-        const syntheticToolCall = {
-          tool_calls: [{
-            id: 'synthetic_' + Date.now(),
-            function: {
-              name: toolName,
-              arguments: JSON.stringify(args)
-            },
-            type: 'function'
-          }]
-        };
-        
-        // Recursively execute this synthetic tool call
-        return executeToolsRecursively(messages, syntheticToolCall, depth);
-      } catch (e) {
-        console.error('Failed to parse JSON from content:', e);
-        // Fall through to normal content handling
-      }
+// Once a limit is hit the model gets one more turn, without tools, to answer from what it has
+async function answerAtLimit(messages: ChatMessage[], limit: string, options: ToolLoopOptions): Promise<string> {
+  log.warn('Tool loop stopped; asking for a final answer', { limit });
+  options.onToolCall?.('wrapping up');
+  const response = await complete({
+    messages: [
+      ...messages,
+      {
+        role: 'user',
+        content: `You have reached ${limit} for this request, so no more tools can run.
+          Answer now from what you already have, and say briefly what you couldn't get to.`,
+      },
+    ],
+    tools: discordTools,
+    toolChoice: 'none',
+  }, options);
+  // Tools can't run any more; finalAnswer drops calls written as text rather than showing them
+  return finalAnswer(response.message, options, `I stopped after reaching ${limit} before I could finish.`);
+}
+
+// Run tool calls and send the results back until the model answers, a round or token limit is hit,
+// or the request is cancelled through options.signal
+async function runToolLoop(messages: ChatMessage[], first: CompletionResponse, options: ToolLoopOptions): Promise<string> {
+  let assistantMessage = first.message;
+  // The model that wrote assistantMessage, which may be a fallback
+  let model = first.model;
+  let tokensUsed = totalTokens(first);
+
+  for (let round = 0; ; round++) {
+    if (!assistantMessage.tool_calls?.length) {
+      const recovered = textToolCalls(assistantMessage, model);
+      if (!recovered) return finalAnswer(assistantMessage, options);
+      assistantMessage = recovered;
     }
-    
-    // Clean up GPT-OSS reasoning artifacts
-    if (content) {
-      content = content.replace(/^(analysis|assistant|commentary|final).*?(?=\*\*|[A-Z])/gs, '');
-      content = content.trim();
+
+    if (round >= TOOL_MAX_ROUNDS) {
+      return answerAtLimit(messages, `the limit of ${TOOL_MAX_ROUNDS} tool rounds`, options);
     }
-    
-    if (!content || content === '') {
-      content = assistantMessage.reasoning || 'I processed your request.';
+    if (TOOL_TOKEN_BUDGET > 0 && tokensUsed >= TOOL_TOKEN_BUDGET) {
+      return answerAtLimit(messages, `the budget of ${TOOL_TOKEN_BUDGET} tokens`, options);
     }
-    
-    return content;
-  }
-  
-  console.error(`===== EXECUTING TOOLS (Round ${depth + 1}) =====`);
-  const toolResults = [];
-  
-  for (const toolCall of assistantMessage.tool_calls) {
-    console.error(`Executing tool: ${toolCall.function.name}`);
-    console.error(`Tool arguments:`, toolCall.function.arguments);
-    
-    // Handle empty arguments for tools that don't require them
-    let args = {};
-    try {
-      if (toolCall.function.arguments && toolCall.function.arguments.trim() !== '') {
-        args = JSON.parse(toolCall.function.arguments);
-      }
-    } catch (parseError) {
-      console.error(`Failed to parse tool arguments:`, parseError);
-      // Continue with empty args
+
+    log.info('Tool round', { round: round + 1, tools: assistantMessage.tool_calls!.map(call => call.function.name) });
+    const { results, images } = await executeToolCalls(assistantMessage.tool_calls!, options);
+
+    // Images aren't kept in conversation memory
+    options.transcript?.push(assistantMessage, ...results);
+
+    messages = [...messages, assistantMessage, ...results];
+    // Tool messages are text-only, so images from tools follow in a user turn
+    if (images.length > 0) {
+      messages.push({
+        role: 'user',
+        content: [{ type: 'text', text: 'Images returned by the tool calls above:' }, ...images.map(toImagePart)],
+      });
     }
-    
-    const result = await executeDiscordTool(toolCall.function.name, args);
-    console.error(`Tool result preview:`, result.substring(0, 200) + '...');
-    
-    toolResults.push({
-      tool_call_id: toolCall.id,
-      role: 'tool',
-      content: result,
-    });
-  }
-  
-  // Send tool results back to LLM
-  const followUpResponse = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: LLM_MODEL,
-      messages: [
-        ...messages,
-        assistantMessage,
-        ...toolResults,
-      ],
-      tools: discordTools, // Include tools in case model needs more
-      max_tokens: 2500,
-      temperature: 0.7,
-    }),
-  });
-  
-  const followUpData = await followUpResponse.json() as any;
-  
-  console.error(`===== FOLLOW-UP RESPONSE (Round ${depth + 1}) =====`);
-  console.error('Has more tool_calls?', !!followUpData.choices[0].message.tool_calls);
-  
-  if (!followUpResponse.ok) {
-    throw new Error(`LLM API error: ${followUpData.error?.message || 'Unknown error'}`);
+
+    options.signal?.throwIfAborted();
+    const followUp = await complete({ messages, tools: discordTools }, options);
+    tokensUsed += totalTokens(followUp);
+    assistantMessage = followUp.message;
+    model = followUp.model;
   }
-  
-  // Recursively handle if there are more tool calls
-  return executeToolsRecursively(
-    [...messages, assistantMessage, ...toolResults],
-    followUpData.choices[0].message,
-    depth + 1
+}
+
+function totalTokens(response: CompletionResponse): number {
+  return (response.usage?.promptTokens ?? 0) + (response.usage?.completionTokens ?? 0);
+}
+
+function usageSubject(options: ToolLoopOptions): UsageSubject {
+  return {
+    ...(options.caller?.type === 'discord' ? { userId: options.caller.userId, username: options.caller.username } : {}),
+    guildId: options.guildId,
+    guildName: options.guildId ? client.guilds.cache.get(options.guildId)?.name : undefined,
+  };
+}
+
+// Every completion in the tool loop goes through here so its tokens and cost are recorded
+async function complete(request: CompletionRequest, options: ToolLoopOptions): Promise<CompletionResponse> {
+  const started = Date.now();
+  const response = await llm.complete(
+    { ...request, model: options.model, temperature: options.temperature, maxTokens: options.maxTokens },
+    // A retry re-sends streamed text, so it resets the reply like a tool call does
+    { onText: options.onText, signal: options.signal, onRetry: options.onToolCall }
   );
+  usage.record(usageSubject(options), response.model, response.usage);
+  log.info('LLM call', {
+    provider: llm.name,
+    model: response.model,
+    promptTokens: response.usage?.promptTokens,
+    completionTokens: response.usage?.completionTokens,
+    toolCalls: response.message.tool_calls?.length ?? 0,
+    latencyMs: Date.now() - started,
+  });
+  return response;
+}
+
+function toImagePart(image: ImageData): ContentPart {
+  return { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } };
 }
 
 // Enhanced LLM call with recursive tool support
-async function callLLMWithTools(prompt: string, context?: string): Promise<string> {
-  if (!OPENROUTER_API_KEY) {
-    throw new Error('OPENROUTER_API_KEY not configured');
-  }
+async function callLLMWithTools(prompt: string, context?: string, options: ToolLoopOptions = {}): Promise<string> {
+  // Throttled requests stop here with a UsageLimitError whose message is meant for the user
+  usage.checkRequest(usageSubject(options));
 
-  const messages = [
+  const messages: ChatMessage[] = [
     {
       role: 'system',
       content: context || `You are AIMI, a helpful AI assistant in Discord. You have access to Discord tools to read messages, list servers, and send messages. Use these tools when users ask you to check channels, read messages, or interact with Discord. 
       IMPORTANT: Always use tool_calls to execute tools, never output JSON directly as text. If a tool fails, retry with corrected parameters using another tool_call.
       Provide comprehensive and detailed responses.`,
     },
+    ...(options.history ?? []),
     {
       role: 'user',
-      content: prompt,
+      content: options.images?.length
+        ? [{ type: 'text', text: prompt }, ...options.images.map(toImagePart)]
+        : prompt,
     },
   ];
+  options.transcript?.push({ role: 'user', content: prompt });
 
-  const requestBody = {
-    model: LLM_MODEL,
+  const response = await complete({
     messages,
     tools: discordTools,
-    tool_choice: 'auto',
-    max_tokens: 2500,
-    temperature: 0.7,
-  };
+    toolChoice: 'auto',
+  }, options);
 
-  console.error('===== SENDING LLM REQUEST =====');
-  console.error('Model:', LLM_MODEL);
-  console.error('User prompt:', prompt);
+  return runToolLoop(messages, response, options);
+}
 
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${OPENROUTER_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
-  });
+// Discord event handlers
+client.once('ready', async (readyClient) => {
+  log.info('Discord bot logged in', { tag: client.user?.tag, botId: client.user?.id });
 
-  const data = await response.json() as any;
-  
-  if (!response.ok) {
-    throw new Error(`LLM API error: ${data.error?.message || 'Unknown error'}`);
+  scheduler.start(toolContext);
+
+  try {
+    await registerSlashCommands(readyClient);
+  } catch (error) {
+    log.error('Failed to register slash commands', { error });
   }
+});
 
-  // Use recursive tool execution
-  return executeToolsRecursively(messages, data.choices[0].message);
+// Folds older turns into a conversation's rolling summary; billed to whoever's request pushed it over budget
+function conversationSummarizer(options: ToolLoopOptions): Summarizer {
+  return async (summary, turns) => {
+    const response = await complete({
+      messages: [
+        {
+          role: 'system',
+          content: `You keep the running memory of a Discord conversation between users and an assistant.
+            Merge the earlier summary and the new turns into one concise summary of at most 300 words: what was asked,
+            what the assistant found or did (keep channel and message IDs it relied on) and anything still open.
+            Reply with the summary only.`,
+        },
+        { role: 'user', content: `${summary ? `Earlier summary:\n${summary}\n\n` : ''}New turns:\n${formatTurns(turns)}` },
+      ],
+    }, { model: options.model, caller: options.caller, guildId: options.guildId });
+    return response.message.content?.trim() || summary || '';
+  };
 }
 
-// Discord event handlers
-client.once('ready', () => {
-  console.error(`Discord bot logged in as ${client.user?.tag}`);
-  console.error('Bot ID:', client.user?.id);
-  console.error('Ready with recursive tool calling support!');
-});
+// Scheduled prompts run through the same tool loop, as the user who scheduled them; the scheduler posts the answer
+async function runScheduledPrompt(job: ScheduledJob): Promise<string> {
+  const guild = client.guilds.cache.get(job.guildId);
+  const settings = botConfig.resolve(guild, client.channels.cache.get(job.channelId) as ConfigChannel | undefined);
+  return callLLMWithTools(
+    job.content,
+    `You are ${settings.persona ?? DEFAULT_PERSONA}, an AI assistant in the "${guild?.name ?? job.guildId}" Discord server.
+     You have access to tools to read Discord channels, search the message archive, list servers and react to messages.
+     The current server ID is ${job.guildId}; pass it as the server argument to tools.
+     You are running a scheduled task. Your answer will be posted in #${job.channelName}, so reply with the post only and don't send it yourself.
+     ${settings.systemPrompt ?? ''}`,
+    { model: settings.model, temperature: settings.temperature, maxTokens: settings.maxTokens, caller: job.createdBy, guildId: job.guildId }
+  );
+}
 
-// Message handler for bot mentions and DMs
-client.on('messageCreate', async (message: Message) => {
-  console.error('Message received from:', message.author.tag, 'Content:', message.content.substring(0, 50));
-  
-  if (message.author.bot) {
-    console.error('Ignoring bot message');
-    return;
+// Slash commands share the LLM tool loop with mentions
+const commandDeps: CommandDeps = {
+  ask: (prompt, context, options) => callLLMWithTools(prompt, context, options),
+  describeLLM: () => ({ provider: llm.name, model: llm.model, streaming: LLM_STREAMING, confirmWrites: CONFIRM_WRITES }),
+  config: botConfig,
+  usage,
+  forget: (channelId) => conversations.forget(channelId),
+};
+
+client.on('interactionCreate', (interaction) => handleInteraction(interaction, commandDeps));
+
+// Tell the model what was attached to a mention so it can open files with read_attachment
+function describeAttachments(message: Message): string {
+  if (message.attachments.size === 0) return '';
+  const files = message.attachments.map(a => `${a.name} (${a.contentType ?? 'unknown type'}, ${a.size} bytes)`);
+  const location = message.inGuild() ? ` (message ID ${message.id} in channel ID ${message.channelId}; open files with read_attachment)` : '';
+  return `\n\n[Attached files${location}: ${files.join(', ')}]`;
+}
+
+// Images on a mention go straight to the model; ones that fail to download are skipped
+async function readPromptImages(message: Message): Promise<ImageData[]> {
+  const images: ImageData[] = [];
+  for (const attachment of message.attachments.values()) {
+    if (attachmentKind(attachment) !== 'image') continue;
+    try {
+      images.push(await readImageAttachment(attachment));
+    } catch (error) {
+      log.warn('Skipping image', { attachment: attachment.name, error });
+    }
   }
+  return images;
+}
 
-  const botWasMentioned = message.mentions.has(client.user!.id);
-  const isDM = message.channel.isDMBased();
-  
-  console.error('Bot mentioned:', botWasMentioned, 'Is DM:', isDM);
+// Requests still being worked on, by the ID of the message that triggered them
+const inFlight = new Map<string, AbortController>();
 
-  if (!botWasMentioned && !isDM) return;
+// Deleting the question cancels the answer
+client.on('messageDelete', (message) => {
+  const controller = inFlight.get(message.id);
+  if (controller) {
+    log.info('Message deleted; cancelling its request', { messageId: message.id });
+    controller.abort();
+  }
+});
 
-  // Show typing indicator
-  if ('sendTyping' in message.channel) {
-    await message.channel.sendTyping();
+// Message handler for bot mentions and DMs; everything logged while handling a message carries its request ID
+client.on('messageCreate', (message: Message) => {
+  if (message.author.bot) return;
+  const fields = { requestId: newRequestId(), userId: message.author.id, channelId: message.channelId, guildId: message.guildId };
+  return withLogContext(fields, () => handleMessage(message));
+});
+
+async function handleMessage(message: Message): Promise<void> {
+  const botWasMentioned = message.mentions.has(client.user!.id);
+  const isDM = message.channel.isDMBased();
+  const settings = botConfig.resolve(message.guild, message.channel);
+
+  // Mentions and DMs always get a reply; always-on and prefix channels also answer other messages
+  const prompt = botWasMentioned || isDM
+    ? message.content.replace(/<@!?\d+>/g, '').trim()
+    : triggeredPrompt(settings, message.content);
+  if (prompt === null) return;
+
+  const trigger = isDM ? 'dm' : botWasMentioned ? 'mention' : settings.trigger;
+  log.info('Message trigger', { trigger, user: message.author.username, messageId: message.id });
+  log.debug('Message content', { content: message.content });
+
+  // "reset" or "forget" on its own, said to the bot, clears its memory of the conversation here.
+  // In servers the memory is shared by the channel, so only moderators (Manage Messages) can clear it.
+  if ((botWasMentioned || isDM) && /^(reset|forget)$/i.test(prompt)) {
+    const allowed = isDM || message.member?.permissionsIn(message.channelId).has(PermissionFlagsBits.ManageMessages);
+    if (allowed) conversations.forget(message.channelId);
+    await message.reply(allowed
+      ? "Done, I've forgotten our earlier conversation here."
+      : 'Only members who can manage messages here can clear my memory of this conversation.'
+    ).catch((error) => log.warn('Failed to reply to reset', { error }));
+    return;
   }
 
+  const reply = new StreamingReply(message);
+  const controller = new AbortController();
+  inFlight.set(message.id, controller);
+  const ack = ACK_REACTION && ACK_REACTION !== 'none'
+    ? await message.react(ACK_REACTION).catch((error) => {
+        log.warn('Failed to add acknowledgement reaction', { error });
+        return null;
+      })
+    : null;
+
+  const streaming = settings.streaming ?? LLM_STREAMING;
   try {
-    const cleanContent = message.content.replace(/<@!?\d+>/g, '').trim();
-    
-    // Get conversation context
-    const messages = await message.channel.messages.fetch({ limit: 5, before: message.id });
-    const contextMessages = Array.from(messages.values())
-      .reverse()
-      .map(m => `${m.author.username}: ${m.content}`)
-      .join('\n');
+    // When streaming, post a placeholder right away and edit it as the answer comes in;
+    // otherwise the answer is posted once, when it's ready
+    if (streaming) await reply.start();
+
+    const cleanContent = prompt + describeAttachments(message);
+    const images = await readPromptImages(message);
+
+    const confirmWrites = settings.confirmWrites ?? CONFIRM_WRITES;
+    const memory = CONVERSATION_TOKEN_BUDGET > 0 ? conversations.load(message.channelId) : undefined;
+
+    // Without conversation memory, the last few channel messages stand in for it
+    let recentContext = '';
+    if (!memory) {
+      const messages = await message.channel.messages.fetch({ limit: 5, before: message.id });
+      const contextMessages = Array.from(messages.values())
+        .reverse()
+        .map(m => `${m.author.username}: ${m.content}`)
+        .join('\n');
+      recentContext = `Recent conversation context:\n${contextMessages}`;
+    }
+    const transcript: ChatMessage[] = [];
+    const caller: ToolCaller = { type: 'discord', userId: message.author.id, username: message.author.username };
 
+    // Named so the model can tell people apart in shared channel memory
     const response = await callLLMWithTools(
-      cleanContent,
-      `You are AIMI, an AI assistant in the "${message.guild?.name || 'DM'}" Discord server.
-       You have access to tools to read Discord channels, list servers, and send messages.
+      `${message.author.username}: ${cleanContent}`,
+      `You are ${settings.persona ?? DEFAULT_PERSONA}, an AI assistant in the "${message.guild?.name || 'DM'}" Discord server.
+       You have access to tools to read Discord channels, list servers, react to messages, send, reply to, edit, delete and pin messages, manage threads and channels, and schedule posts.
        When users ask you to check, read, or summarize channels, use the read_messages tool.
-       Provide comprehensive, detailed responses - don't worry about length.
-       Recent conversation context:\n${contextMessages}`
+       ${settings.systemPrompt ?? "Provide comprehensive, detailed responses - don't worry about length."}
+       ${memory?.summary ? `Summary of your earlier conversation here:\n${memory.summary}\n` : ''}
+       ${recentContext}`,
+      {
+        model: settings.model,
+        temperature: settings.temperature,
+        maxTokens: settings.maxTokens,
+        caller,
+        guildId: message.guildId,
+        images,
+        history: memory?.turns,
+        transcript,
+        signal: controller.signal,
+        confirm: confirmWrites
+          ? (request) => requestConfirmation(payload => message.reply(payload), message.author.id, request)
+          : undefined,
+        onText: streaming ? (delta) => {
+          reply.setStatus(null);
+          reply.append(delta);
+        } : undefined,
+        onToolCall: streaming ? (status) => {
+          // Text streamed before a tool call is superseded by the next round's answer
+          reply.setText('');
+          reply.setStatus(status);
+        } : undefined,
+      }
     );
 
-    // Handle long messages by splitting them
-    const MAX_LENGTH = 1950;
-    
-    if (response.length <= MAX_LENGTH) {
-      await message.reply(response);
-    } else {
-      // Split into multiple messages
-      console.error(`Response too long (${response.length} chars), splitting...`);
-      
-      const parts = [];
-      let remaining = response;
-      
-      while (remaining.length > 0) {
-        if (remaining.length <= MAX_LENGTH) {
-          parts.push(remaining);
-          break;
-        }
-        
-        let splitPoint = MAX_LENGTH;
-        
-        // Try to split at natural break points
-        const paragraphBreak = remaining.lastIndexOf('\n\n', MAX_LENGTH);
-        if (paragraphBreak > MAX_LENGTH * 0.5) {
-          splitPoint = paragraphBreak;
-        } else {
-          const sentenceEnd = remaining.lastIndexOf('. ', MAX_LENGTH);
-          if (sentenceEnd > MAX_LENGTH * 0.7) {
-            splitPoint = sentenceEnd + 1;
-          } else {
-            const lineBreak = remaining.lastIndexOf('\n', MAX_LENGTH);
-            if (lineBreak > MAX_LENGTH * 0.7) {
-              splitPoint = lineBreak;
-            }
-          }
-        }
-        
-        parts.push(remaining.substring(0, splitPoint).trim());
-        remaining = remaining.substring(splitPoint).trim();
-      }
-      
-      // Send all parts
-      for (let i = 0; i < parts.length; i++) {
-        const header = parts.length > 1 ? `**[Part ${i + 1}/${parts.length}]**\n\n` : '';
-        await message.reply(header + parts[i]);
-        
-        if (i < parts.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 500));
-        }
-      }
+    // Replace the streamed text with the final, cleaned-up answer; long answers roll over into follow-ups
+    await reply.finish(response);
+
+    if (CONVERSATION_TOKEN_BUDGET > 0) {
+      conversations.append(message.channelId, transcript);
+      await conversations.compact(message.channelId, conversationSummarizer({ model: settings.model, caller, guildId: message.guildId }))
+        .catch((error) => log.warn('Failed to compact conversation memory', { error }));
     }
   } catch (error) {
-    console.error('Error:', error);
-    await message.reply('Sorry, I encountered an error. Please try again.');
+    // Posting the notice can fail too (no Send Messages permission, or the message is gone); that
+    // mustn't escape the event handler as an unhandled rejection
+    const notifyFailed = (notifyError: unknown) => log.warn('Failed to update the reply', { error: notifyError });
+    if (controller.signal.aborted) {
+      log.info('Request cancelled');
+      await reply.discard().catch(notifyFailed);
+      return;
+    }
+    if (error instanceof UsageLimitError) {
+      log.info('Request throttled', { reason: error.message });
+      await reply.fail(error.message).catch(notifyFailed);
+      return;
+    }
+    log.error('Failed to answer message', { error });
+    await reply.fail('Sorry, I encountered an error. Please try again.').catch(notifyFailed);
+  } finally {
+    inFlight.delete(message.id);
+    await ack?.users.remove(client.user!.id).catch(() => undefined);
   }
-});
-
-// ===== MCP Server Setup (for Claude Desktop) =====
-
-const SendMessageSchema = z.object({
-  server: z.string().optional(),
-  channel: z.string(),
-  message: z.string(),
-});
+}
 
-const ReadMessagesSchema = z.object({
-  server: z.string().optional(),
-  channel: z.string(),
-  limit: z.number().min(1).max(100).default(50),
-});
+// ===== MCP Server Setup (for Claude Desktop and remote clients) =====
 
-// Create MCP server instance
-const server = new Server(
+// Each MCP connection (stdio or an HTTP session) gets its own server over the shared Discord client
+const createServer = () => createMcpServer(
   {
     name: "discord-with-recursive-tools",
     version: "1.0.0",
   },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
+  toolContext
 );
 
-// List available MCP tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "list-servers",
-        description: "List all Discord servers the bot is connected to",
-        inputSchema: {
-          type: "object",
-          properties: {},
-          required: [],
-        },
-      },
-      {
-        name: "send-message",
-        description: "Send a message to a Discord channel",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channel: {
-              type: "string",
-              description: 'Channel name (e.g., "general") or ID',
-            },
-            message: {
-              type: "string",
-              description: "Message content to send",
-            },
-          },
-          required: ["channel", "message"],
-        },
-      },
-      {
-        name: "read-messages",
-        description: "Read recent messages from a Discord channel",
-        inputSchema: {
-          type: "object",
-          properties: {
-            server: {
-              type: "string",
-              description: 'Server name or ID (optional if bot is only in one server)',
-            },
-            channel: {
-              type: "string",
-              description: 'Channel name (e.g., "general") or ID',
-            },
-            limit: {
-              type: "number",
-              description: "Number of messages to fetch (max 100)",
-              default: 50,
-            },
-          },
-          required: ["channel"],
-        },
-      },
-    ],
-  };
-});
-
-// Handle MCP tool execution
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    const result = await executeDiscordTool(
-      name.replace('-', '_'),
-      args
-    );
-    
-    return {
-      content: [{
-        type: "text",
-        text: result,
-      }],
-    };
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new Error(
-        `Invalid arguments: ${error.errors
-          .map((e) => `${e.path.join(".")}: ${e.message}`)
-          .join(", ")}`
-      );
-    }
-    throw error;
-  }
-});
-
 // Main function
 async function main() {
   const token = process.env.DISCORD_TOKEN;
@@ -663,14 +602,13 @@ async function main() {
   }
   
   try {
+    const mode = transportMode();
     await client.login(token);
-    console.error('Discord bot connected with recursive tool calling!');
+    log.info('Discord bot connected');
     
-    const transport = new StdioServerTransport();
-    await server.connect(transport);
-    console.error("MCP Server running on stdio");
+    await startTransports(createServer, mode);
   } catch (error) {
-    console.error("Fatal error:", error);
+    log.error('Fatal error', { error });
     process.exit(1);
   }
 }
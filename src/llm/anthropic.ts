@@ -0,0 +1,222 @@
+// ABOUTME: Provider for Anthropic's native Messages API
+// ABOUTME: Maps OpenAI-style tool calls and results to tool_use / tool_result content blocks and back
+
+import fetch from 'node-fetch';
+import { readServerSentEvents } from './sse.js';
+import { LLMError, responseError } from './errors.js';
+import type {
+  ChatMessage,
+  CompletionOptions,
+  ContentPart,
+  CompletionRequest,
+  CompletionResponse,
+  LLMProvider,
+  ProviderConfig,
+  ToolCall,
+} from './types.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url: string } }
+  | { type: 'tool_use'; id: string; name: string; input: unknown }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+function parseArguments(raw: string): unknown {
+  if (!raw || raw.trim() === '') return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function toAnthropicPart(part: ContentPart): AnthropicBlock {
+  if (part.type === 'text') {
+    return { type: 'text', text: part.text };
+  }
+  const dataUrl = part.image_url.url.match(/^data:([^;]+);base64,(.*)$/s);
+  return dataUrl
+    ? { type: 'image', source: { type: 'base64', media_type: dataUrl[1], data: dataUrl[2] } }
+    : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+}
+
+// Anthropic takes the system prompt separately and requires tool results in user turns
+function toAnthropicMessages(messages: ChatMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system: string[] = [];
+  const converted: AnthropicMessage[] = [];
+
+  const push = (role: AnthropicMessage['role'], blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = converted[converted.length - 1];
+    // Consecutive turns from the same role must be merged
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      converted.push({ role, content: blocks });
+    }
+  };
+
+  for (const message of messages) {
+    switch (message.role) {
+      case 'system':
+        system.push(message.content);
+        break;
+      case 'user':
+        push('user', typeof message.content === 'string'
+          ? [{ type: 'text', text: message.content }]
+          : message.content.map(toAnthropicPart));
+        break;
+      case 'assistant': {
+        const blocks: AnthropicBlock[] = [];
+        if (message.content) {
+          blocks.push({ type: 'text', text: message.content });
+        }
+        for (const call of message.tool_calls ?? []) {
+          blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseArguments(call.function.arguments) });
+        }
+        push('assistant', blocks);
+        break;
+      }
+      case 'tool':
+        push('user', [{ type: 'tool_result', tool_use_id: message.tool_call_id, content: message.content }]);
+        break;
+    }
+  }
+
+  return { system: system.join('\n\n'), messages: converted };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+
+  constructor(private config: ProviderConfig) {}
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<CompletionResponse> {
+    if (!this.config.apiKey) {
+      throw new Error('ANTHROPIC_API_KEY not configured');
+    }
+
+    const { system, messages } = toAnthropicMessages(request.messages);
+    const tools = (request.tools ?? []).map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters,
+    }));
+    const stream = !!options.onText;
+
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': this.config.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model || this.config.model,
+        ...(system ? { system } : {}),
+        messages,
+        // Tools stay declared with tool_choice "none" since earlier turns may contain tool_use blocks
+        ...(tools.length > 0 ? { tools, tool_choice: { type: request.toolChoice ?? 'auto' } } : {}),
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+        temperature: request.temperature ?? this.config.temperature,
+        ...(stream ? { stream: true } : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+
+    const data = stream
+      ? await this.readStream(response.body!, options.onText!)
+      : await response.json() as any;
+
+    const blocks: AnthropicBlock[] = Array.isArray(data.content) ? data.content : [];
+    const text = blocks
+      .filter((b): b is Extract<AnthropicBlock, { type: 'text' }> => b.type === 'text')
+      .map(b => b.text)
+      .join('');
+    const toolCalls: ToolCall[] = blocks
+      .filter((b): b is Extract<AnthropicBlock, { type: 'tool_use' }> => b.type === 'tool_use')
+      .map(b => ({
+        id: b.id,
+        type: 'function',
+        function: { name: b.name, arguments: JSON.stringify(b.input ?? {}) },
+      }));
+
+    return {
+      message: {
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+      },
+      model: data.model || request.model || this.config.model,
+      usage: data.usage
+        ? { promptTokens: data.usage.input_tokens ?? 0, completionTokens: data.usage.output_tokens ?? 0 }
+        : undefined,
+    };
+  }
+
+  // Rebuild the non-streaming response shape from stream events so both paths share the mapping above
+  private async readStream(body: NodeJS.ReadableStream, onText: (delta: string) => void): Promise<any> {
+    const message: any = { content: [], usage: { input_tokens: 0, output_tokens: 0 } };
+    const partialJson: string[] = [];
+
+    for await (const { data } of readServerSentEvents(body)) {
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        continue;
+      }
+
+      switch (event.type) {
+        case 'message_start':
+          message.model = event.message?.model;
+          message.usage.input_tokens = event.message?.usage?.input_tokens ?? 0;
+          break;
+        case 'content_block_start':
+          message.content[event.index] = { ...event.content_block };
+          partialJson[event.index] = '';
+          break;
+        case 'content_block_delta': {
+          const block = message.content[event.index];
+          if (event.delta?.type === 'text_delta') {
+            block.text = (block.text ?? '') + event.delta.text;
+            onText(event.delta.text);
+          } else if (event.delta?.type === 'input_json_delta') {
+            partialJson[event.index] += event.delta.partial_json;
+          }
+          break;
+        }
+        case 'content_block_stop': {
+          const block = message.content[event.index];
+          if (block?.type === 'tool_use' && partialJson[event.index]) {
+            block.input = parseArguments(partialJson[event.index]);
+          }
+          break;
+        }
+        case 'message_delta':
+          message.usage.output_tokens = event.usage?.output_tokens ?? message.usage.output_tokens;
+          break;
+        case 'error':
+          throw new LLMError(event.error?.message || 'stream error', { retryable: event.error?.type !== 'invalid_request_error' });
+      }
+    }
+
+    message.content = message.content.filter(Boolean);
+    return message;
+  }
+}
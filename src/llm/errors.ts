@@ -0,0 +1,46 @@
+// ABOUTME: Error type for failed LLM API calls, carrying the HTTP status and any Retry-After hint
+// ABOUTME: Rate limits (429), server errors (5xx), stream errors and timeouts count as worth retrying
+
+export class LLMError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryAfterMs?: number; retryable?: boolean } = {}) {
+    super(`LLM API error: ${message}`);
+    this.name = 'LLMError';
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+    this.retryable = options.retryable
+      ?? (options.status !== undefined && (options.status === 429 || options.status >= 500));
+  }
+}
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Build the error for a non-2xx response from the provider's JSON error body
+export async function responseError(response: {
+  status: number;
+  statusText: string;
+  headers: { get(name: string): string | null };
+  json(): Promise<unknown>;
+}): Promise<LLMError> {
+  const body = await response.json().catch(() => ({})) as any;
+  return new LLMError(body.error?.message || `${response.status} ${response.statusText}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
+
+// Network failures (connection resets, DNS hiccups) are retried too; node-fetch marks them as system errors
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof LLMError) return error.retryable;
+  return (error as { type?: string } | null)?.type === 'system';
+}
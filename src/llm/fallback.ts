@@ -0,0 +1,90 @@
+// ABOUTME: Wraps a provider with retries (exponential backoff, honouring Retry-After) and an ordered list of fallback models
+// ABOUTME: Each attempt has its own timeout so a hung connection is retried like any other transient failure
+
+import { setTimeout as sleep } from 'node:timers/promises';
+import { LLMError, isRetryable } from './errors.js';
+import type { CompletionOptions, CompletionRequest, CompletionResponse, LLMProvider } from './types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('llm');
+
+// Longest wait between attempts, whatever Retry-After says
+const MAX_RETRY_DELAY_MS = 30_000;
+
+export interface RetryConfig {
+  // Tried in order once the requested model keeps failing
+  fallbackModels: string[];
+  // Retries per model for rate limits, server errors, timeouts and network failures
+  maxRetries: number;
+  baseDelayMs: number;
+  timeoutMs: number;
+}
+
+export function retryConfigFromEnv(env: NodeJS.ProcessEnv = process.env): RetryConfig {
+  // 0 turns retries off; anything that isn't a whole number falls back to the default
+  const maxRetries = Number(env.LLM_MAX_RETRIES || 2);
+  return {
+    fallbackModels: (env.LLM_FALLBACK_MODELS ?? '').split(',').map(model => model.trim()).filter(Boolean),
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 2,
+    baseDelayMs: 1000,
+    timeoutMs: (Number(env.LLM_TIMEOUT_SECONDS) || 120) * 1000,
+  };
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class FallbackProvider implements LLMProvider {
+  constructor(private inner: LLMProvider, private config: RetryConfig) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<CompletionResponse> {
+    const models = [...new Set([request.model || this.inner.model, ...this.config.fallbackModels])];
+    let lastError: unknown;
+
+    for (const [index, model] of models.entries()) {
+      for (let attempt = 0; ; attempt++) {
+        options.signal?.throwIfAborted();
+        const timeout = AbortSignal.timeout(this.config.timeoutMs);
+        try {
+          return await this.inner.complete(
+            { ...request, model },
+            { ...options, signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout }
+          );
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          lastError = timeout.aborted
+            ? new LLMError(`${model} did not respond within ${this.config.timeoutMs / 1000}s`, { retryable: true })
+            : error;
+
+          // Bad requests and auth failures won't be fixed by another model; an unknown model (404) might be
+          const notFound = lastError instanceof LLMError && lastError.status === 404;
+          if (!isRetryable(lastError) && !notFound) throw lastError;
+          if (notFound || attempt >= this.config.maxRetries) break;
+
+          const retryAfter = lastError instanceof LLMError ? lastError.retryAfterMs : undefined;
+          const delay = Math.min(MAX_RETRY_DELAY_MS, retryAfter ?? this.config.baseDelayMs * 2 ** attempt * (1 + Math.random()));
+          log.warn('LLM call failed; retrying', { model, error: describeError(lastError), retry: attempt + 1, delayMs: Math.round(delay) });
+          options.onRetry?.('the model is busy, retrying');
+          await sleep(delay, undefined, { signal: options.signal });
+        }
+      }
+
+      const next = models[index + 1];
+      if (next) {
+        log.warn('Falling back to the next model', { model, next, error: describeError(lastError) });
+        options.onRetry?.(`switching to ${next}`);
+      }
+    }
+
+    throw lastError;
+  }
+}
@@ -0,0 +1,85 @@
+// ABOUTME: Selects and configures the LLM provider from environment variables
+// ABOUTME: LLM_PROVIDER picks openrouter (default), openai, anthropic or openai-compatible; calls are retried and can fall back to other models
+
+import { AnthropicProvider } from './anthropic.js';
+import { OpenAICompatibleProvider } from './openai.js';
+import { FallbackProvider, retryConfigFromEnv } from './fallback.js';
+import type { LLMProvider } from './types.js';
+
+export type * from './types.js';
+export { LLMError } from './errors.js';
+
+export type ProviderName = 'openrouter' | 'openai' | 'anthropic' | 'openai-compatible';
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openrouter: 'anthropic/claude-3.5-sonnet',
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-sonnet-latest',
+  'openai-compatible': 'llama3.1',
+};
+
+// Friendlier names people reach for when pointing at a local server
+const PROVIDER_ALIASES: Record<string, ProviderName> = {
+  ollama: 'openai-compatible',
+  llamacpp: 'openai-compatible',
+  'llama.cpp': 'openai-compatible',
+  local: 'openai-compatible',
+};
+
+function resolveProviderName(value: string | undefined): ProviderName {
+  const name = (value || 'openrouter').toLowerCase();
+  if (name in DEFAULT_MODELS) return name as ProviderName;
+  if (name in PROVIDER_ALIASES) return PROVIDER_ALIASES[name];
+  throw new Error(`Unknown LLM_PROVIDER "${value}". Use openrouter, openai, anthropic or openai-compatible.`);
+}
+
+export function createProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LLMProvider {
+  return new FallbackProvider(createBaseProvider(env), retryConfigFromEnv(env));
+}
+
+function createBaseProvider(env: NodeJS.ProcessEnv): LLMProvider {
+  const provider = resolveProviderName(env.LLM_PROVIDER);
+  const common = {
+    model: env.LLM_MODEL || DEFAULT_MODELS[provider],
+    maxTokens: Number(env.LLM_MAX_TOKENS) || 2500,
+    temperature: env.LLM_TEMPERATURE !== undefined && env.LLM_TEMPERATURE !== ''
+      ? Number(env.LLM_TEMPERATURE)
+      : 0.7,
+  };
+
+  switch (provider) {
+    case 'openrouter':
+      return new OpenAICompatibleProvider('openrouter', {
+        ...common,
+        apiKey: env.OPENROUTER_API_KEY,
+        baseUrl: env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+        headers: {
+          ...(env.OPENROUTER_SITE_URL ? { 'HTTP-Referer': env.OPENROUTER_SITE_URL } : {}),
+          'X-Title': env.OPENROUTER_APP_NAME || 'discord-mcp-server',
+        },
+        reportsCost: true,
+      });
+
+    case 'openai':
+      return new OpenAICompatibleProvider('openai', {
+        ...common,
+        apiKey: env.OPENAI_API_KEY,
+        baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      });
+
+    case 'anthropic':
+      return new AnthropicProvider({
+        ...common,
+        apiKey: env.ANTHROPIC_API_KEY,
+        baseUrl: env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+      });
+
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider('openai-compatible', {
+        ...common,
+        apiKey: env.LLM_API_KEY,
+        baseUrl: env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        requiresApiKey: false,
+      });
+  }
+}
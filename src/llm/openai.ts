@@ -0,0 +1,156 @@
+// ABOUTME: Provider for the OpenAI chat completions API and anything compatible with it
+// ABOUTME: Covers OpenAI itself, OpenRouter and local servers such as Ollama or llama.cpp
+
+import fetch from 'node-fetch';
+import { readServerSentEvents } from './sse.js';
+import { LLMError, responseError } from './errors.js';
+import type {
+  CompletionOptions,
+  CompletionRequest,
+  CompletionResponse,
+  LLMProvider,
+  ProviderConfig,
+  TokenUsage,
+  ToolCall,
+} from './types.js';
+
+export interface OpenAICompatibleConfig extends ProviderConfig {
+  // Extra request headers, e.g. OpenRouter's attribution headers
+  headers?: Record<string, string>;
+  // Local servers usually run without a key
+  requiresApiKey?: boolean;
+  // Ask for the cost of each call in the usage block (OpenRouter)
+  reportsCost?: boolean;
+}
+
+function toTokenUsage(usage: any): TokenUsage {
+  return {
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+    ...(typeof usage.cost === 'number' ? { cost: usage.cost } : {}),
+  };
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  constructor(readonly name: string, private config: OpenAICompatibleConfig) {}
+
+  get model(): string {
+    return this.config.model;
+  }
+
+  async complete(request: CompletionRequest, options: CompletionOptions = {}): Promise<CompletionResponse> {
+    if (this.config.requiresApiKey !== false && !this.config.apiKey) {
+      throw new Error(`API key for LLM provider "${this.name}" not configured`);
+    }
+
+    const hasTools = request.tools && request.tools.length > 0;
+    const stream = !!options.onText;
+    const response = await fetch(`${this.config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        ...(this.config.apiKey ? { 'Authorization': `Bearer ${this.config.apiKey}` } : {}),
+        'Content-Type': 'application/json',
+        ...this.config.headers,
+      },
+      body: JSON.stringify({
+        model: request.model || this.config.model,
+        messages: request.messages,
+        ...(hasTools ? { tools: request.tools, tool_choice: request.toolChoice ?? 'auto' } : {}),
+        max_tokens: request.maxTokens ?? this.config.maxTokens,
+        temperature: request.temperature ?? this.config.temperature,
+        ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+        ...(this.config.reportsCost ? { usage: { include: true } } : {}),
+      }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw await responseError(response);
+    }
+
+    if (stream) {
+      return this.readStream(response.body!, options.onText!, request.model || this.config.model);
+    }
+
+    const data = await response.json() as any;
+
+    const choice = data.choices?.[0];
+    if (!choice?.message) {
+      throw new LLMError('response contained no message', { retryable: true });
+    }
+
+    return {
+      message: {
+        role: 'assistant',
+        content: choice.message.content ?? null,
+        ...(choice.message.tool_calls?.length ? { tool_calls: choice.message.tool_calls } : {}),
+        ...(choice.message.reasoning ? { reasoning: choice.message.reasoning } : {}),
+      },
+      model: data.model || request.model || this.config.model,
+      usage: data.usage ? toTokenUsage(data.usage) : undefined,
+    };
+  }
+
+  // Assemble a streamed completion; tool call fragments arrive keyed by index
+  private async readStream(
+    body: NodeJS.ReadableStream,
+    onText: (delta: string) => void,
+    requestedModel: string
+  ): Promise<CompletionResponse> {
+    let content = '';
+    let reasoning = '';
+    let model = requestedModel;
+    let usage: CompletionResponse['usage'];
+    const toolCalls: ToolCall[] = [];
+
+    for await (const { data } of readServerSentEvents(body)) {
+      if (data === '[DONE]') break;
+
+      let chunk: any;
+      try {
+        chunk = JSON.parse(data);
+      } catch {
+        continue;
+      }
+      if (chunk.error) {
+        // Errors mid-stream are usually the provider being overloaded
+        throw new LLMError(chunk.error.message || 'stream error', { status: typeof chunk.error.code === 'number' ? chunk.error.code : undefined, retryable: true });
+      }
+
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = toTokenUsage(chunk.usage);
+      }
+
+      const delta = chunk.choices?.[0]?.delta;
+      if (!delta) continue;
+
+      if (delta.content) {
+        content += delta.content;
+        onText(delta.content);
+      }
+      if (delta.reasoning) {
+        reasoning += delta.reasoning;
+      }
+      for (const fragment of delta.tool_calls ?? []) {
+        const index = fragment.index ?? toolCalls.length;
+        const call = toolCalls[index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.function.name += fragment.function.name;
+        if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+      }
+    }
+
+    const calls = toolCalls.filter(Boolean).map((call, i) => ({ ...call, id: call.id || `call_${i}` }));
+    return {
+      message: {
+        role: 'assistant',
+        content: content || null,
+        ...(calls.length ? { tool_calls: calls } : {}),
+        ...(reasoning ? { reasoning } : {}),
+      },
+      model,
+      usage,
+    };
+  }
+}
@@ -0,0 +1,45 @@
+// ABOUTME: Minimal server-sent events reader for streaming completions
+// ABOUTME: Yields each event's name and data payload from a fetch response body
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+export async function* readServerSentEvents(body: NodeJS.ReadableStream): AsyncGenerator<ServerSentEvent> {
+  // Decode incrementally so multi-byte characters split across chunks survive
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let event: string | undefined;
+  let data: string[] = [];
+
+  const dispatch = function* (): Generator<ServerSentEvent> {
+    if (data.length > 0) {
+      yield { event, data: data.join('\n') };
+    }
+    event = undefined;
+    data = [];
+  };
+
+  for await (const chunk of body) {
+    buffer += typeof chunk === 'string' ? chunk : decoder.decode(chunk as Uint8Array, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+
+      if (line === '') {
+        yield* dispatch();
+      } else if (line.startsWith(':')) {
+        // Comment / keep-alive
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      }
+    }
+  }
+
+  yield* dispatch();
+}
@@ -0,0 +1,225 @@
+// ABOUTME: Recovers tool calls that weaker or local models write into their text instead of the tool_calls field
+// ABOUTME: Parsers for <tool_call> tags, GPT-OSS (harmony) channels, JSON code fences and bare JSON; only replies made up entirely of known calls count
+
+import type { ToolCall } from './types.js';
+
+// A call as found in text, before it's checked against the known tools
+export interface TextToolCall {
+  name: string;
+  arguments: unknown;
+}
+
+// One text format. Returns the calls it found and the text with them cut out, or null if it found none.
+export interface TextToolCallParser {
+  name: string;
+  parse(text: string, isKnownTool: (name: string) => boolean): { calls: TextToolCall[]; text: string } | null;
+}
+
+// The shapes models use for a single call: {"name", "arguments"}, Llama's {"name", "parameters"},
+// {"tool", "args"}, OpenAI's {"function": {...}}, and lists or {"tool_calls": [...]} of any of these
+function toTextToolCalls(value: unknown): TextToolCall[] | null {
+  if (Array.isArray(value)) {
+    const calls = value.map(toTextToolCalls);
+    return calls.length > 0 && calls.every(Boolean) ? calls.flat() as TextToolCall[] : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const object = value as Record<string, unknown>;
+  if (Array.isArray(object.tool_calls)) return toTextToolCalls(object.tool_calls);
+  if (object.function && typeof object.function === 'object') return toTextToolCalls(object.function);
+
+  const name = object.name ?? object.tool ?? object.tool_name;
+  if (typeof name !== 'string') return null;
+  let args = object.arguments ?? object.parameters ?? object.args ?? object.input ?? {};
+  if (typeof args === 'string') {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      // Left as a string; it fails validation and the model sees the error
+    }
+  }
+  return [{ name, arguments: args }];
+}
+
+// Calls in a JSON snippet, if it parses and every call names a known tool
+function callsInJson(json: string, isKnownTool: (name: string) => boolean): TextToolCall[] | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const calls = toTextToolCalls(value);
+  return calls && calls.every(call => isKnownTool(call.name)) ? calls : null;
+}
+
+// Cut every match of pattern whose JSON (from the given capture group) holds known calls
+function parseMatches(
+  pattern: RegExp,
+  text: string,
+  isKnownTool: (name: string) => boolean,
+  toCall: (match: RegExpExecArray) => TextToolCall[] | null
+): { calls: TextToolCall[]; text: string } | null {
+  const calls: TextToolCall[] = [];
+  const remaining = text.replace(pattern, (...args) => {
+    const match = args.slice(0, -2) as unknown as RegExpExecArray;
+    const found = toCall(match);
+    if (!found) return match[0];
+    calls.push(...found);
+    return '';
+  });
+  return calls.length > 0 ? { calls, text: remaining } : null;
+}
+
+// The end of the JSON object or array starting at text[start], skipping over strings
+function matchingBracket(text: string, start: number): number {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (char === '\\') i++;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      stack.push(char === '{' ? '}' : ']');
+    } else if (char === '}' || char === ']') {
+      if (stack.pop() !== char) return -1;
+      if (stack.length === 0) return i;
+    }
+  }
+  return -1;
+}
+
+const TOOL_CALL_TAG = /<tool_call>\s*(?:```(?:json)?)?([\s\S]*?)(?:```)?\s*(?:<\/tool_call>|$)/g;
+const HARMONY_CALL = /(?:<\|start\|>assistant)?(?:<\|channel\|>\w+)?\s*to=functions\.([\w-]+)[^<]*(?:<\|constrain\|>\s*\w+)?<\|message\|>([\s\S]*?)(?:<\|call\|>|$)/g;
+
+// Hermes and Qwen: <tool_call>{"name": ..., "arguments": ...}</tool_call>, the last one sometimes left open
+const toolCallTags: TextToolCallParser = {
+  name: 'tool_call tags',
+  parse: (text, isKnownTool) => parseMatches(
+    TOOL_CALL_TAG,
+    text,
+    isKnownTool,
+    match => callsInJson(match[1], isKnownTool)
+  ),
+};
+
+// GPT-OSS harmony format: <|channel|>commentary to=functions.read_messages <|constrain|>json<|message|>{...}<|call|>
+const harmonyCalls: TextToolCallParser = {
+  name: 'harmony',
+  parse: (text, isKnownTool) => parseMatches(
+    HARMONY_CALL,
+    text,
+    isKnownTool,
+    match => {
+      if (!isKnownTool(match[1])) return null;
+      try {
+        return [{ name: match[1], arguments: JSON.parse(match[2]) }];
+      } catch {
+        return null;
+      }
+    }
+  ),
+};
+
+// ```json fenced blocks holding a call or a list of calls
+const codeFences: TextToolCallParser = {
+  name: 'code fences',
+  parse: (text, isKnownTool) => parseMatches(
+    /```(?:json|tool_call|tool_code)?\s*\n?([\s\S]*?)```/g,
+    text,
+    isKnownTool,
+    match => callsInJson(match[1].trim(), isKnownTool)
+  ),
+};
+
+// Bare JSON anywhere in the reply, e.g. Llama's {"name": ..., "parameters": ...} or Mistral's [TOOL_CALLS][...]
+const bareJson: TextToolCallParser = {
+  name: 'bare JSON',
+  parse: (text, isKnownTool) => {
+    const calls: TextToolCall[] = [];
+    let remaining = '';
+    let position = 0;
+    const candidate = /\{\s*"|\[\s*\{/g;
+    for (let match = candidate.exec(text); match; match = candidate.exec(text)) {
+      if (match.index < position) continue;
+      const end = matchingBracket(text, match.index);
+      const found = end > 0 ? callsInJson(text.slice(match.index, end + 1), isKnownTool) : null;
+      if (!found) continue;
+      calls.push(...found);
+      remaining += text.slice(position, match.index);
+      position = end + 1;
+      candidate.lastIndex = position;
+    }
+    if (calls.length === 0) return null;
+    remaining += text.slice(position);
+    return { calls, text: remaining.replace(/\[TOOL_CALLS\]|<\|python_tag\|>/g, '') };
+  },
+};
+
+// Tried in order, each on what the previous ones left over
+export const DEFAULT_TEXT_TOOL_CALL_PARSERS: TextToolCallParser[] = [toolCallTags, harmonyCalls, codeFences, bareJson];
+
+// Strip GPT-OSS harmony channels from a final answer, keeping only the final channel
+export function cleanModelText(text: string): string {
+  const final = text.match(/<\|channel\|>final<\|message\|>([\s\S]*?)(?:<\|(?:end|return)\|>|$)/);
+  if (final) return final[1].trim();
+  // Servers that drop the special tokens leave "analysis...assistantfinal..."
+  const flattened = text.match(/^\s*analysis[\s\S]*?assistantfinal([\s\S]*)$/);
+  if (flattened) return flattened[1].trim();
+  return text.replace(/<\|(?:start|end|return|channel|message|call)\|>/g, '').trim();
+}
+
+// Cut call markup that wasn't run (recovery is off for the model, or the calls came with prose)
+// so it isn't posted: <tool_call> tags, harmony calls, and Mistral and Llama call tokens with what follows
+export function stripToolCallMarkup(text: string): string {
+  return text
+    .replace(TOOL_CALL_TAG, '')
+    .replace(HARMONY_CALL, '')
+    .replace(/(?:\[TOOL_CALLS\]|<\|python_tag\|>)[\s\S]*$/, '');
+}
+
+// What's left of a reply once its calls are cut out, ignoring GPT-OSS analysis and control tokens
+function leftoverText(text: string): string {
+  return text
+    .replace(/<\|channel\|>analysis<\|message\|>[\s\S]*?<\|end\|>/g, '')
+    .replace(/<\|start\|>assistant|<\|(?:start|end|return|channel|message|call|constrain)\|>/g, '')
+    .trim();
+}
+
+// Find tool calls in a reply's text. A reply only counts as calls if it holds nothing else, so JSON
+// quoted in an answer (say, from a channel being summarized) is never run.
+export function parseTextToolCalls(
+  content: string,
+  isKnownTool: (name: string) => boolean,
+  parsers: TextToolCallParser[] = DEFAULT_TEXT_TOOL_CALL_PARSERS
+): { calls: ToolCall[]; text: string } {
+  const calls: TextToolCall[] = [];
+  let text = content;
+  for (const parser of parsers) {
+    const result = parser.parse(text, isKnownTool);
+    if (result) {
+      calls.push(...result.calls);
+      text = result.text;
+    }
+  }
+  if (calls.length === 0 || leftoverText(text) !== '') {
+    return { calls: [], text: cleanModelText(content) };
+  }
+
+  const stamp = Date.now();
+  return {
+    calls: calls.map((call, index) => ({
+      id: `text_call_${stamp}_${index}`,
+      type: 'function',
+      function: {
+        name: call.name,
+        arguments: typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments ?? {}),
+      },
+    })),
+    // Only analysis and control tokens were left
+    text: '',
+  };
+}
@@ -0,0 +1,82 @@
+// ABOUTME: Provider-neutral chat types used by the tool-calling loop
+// ABOUTME: Modelled on the OpenAI chat format; providers translate to and from their own wire format
+
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    // JSON-encoded arguments, as produced by the model
+    arguments: string;
+  };
+}
+
+// Parts of a multimodal user turn; image URLs may be data: URLs with base64 content
+export type ContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | ContentPart[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[]; reasoning?: string }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+export type AssistantMessage = Extract<ChatMessage, { role: 'assistant' }>;
+
+// Tool definition in OpenAI function format, as generated by the tool registry
+export interface ToolSpec {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  tools?: ToolSpec[];
+  toolChoice?: 'auto' | 'none';
+  // Override the provider's configured model and sampling settings for this request
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // USD, when the provider reports it (OpenRouter does)
+  cost?: number;
+}
+
+export interface CompletionResponse {
+  message: AssistantMessage;
+  model: string;
+  usage?: TokenUsage;
+}
+
+export interface CompletionOptions {
+  // When set, the provider streams the completion and reports text as it arrives
+  onText?: (delta: string) => void;
+  // Cancels the request, including any retries
+  signal?: AbortSignal;
+  // Called before a retry or a switch to a fallback model; text streamed so far will be sent again
+  onRetry?: (status: string) => void;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: CompletionRequest, options?: CompletionOptions): Promise<CompletionResponse>;
+}
+
+// Settings every provider shares
+export interface ProviderConfig {
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  apiKey?: string;
+  baseUrl: string;
+}
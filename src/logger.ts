@@ -0,0 +1,71 @@
+// ABOUTME: Structured logging to stderr (stdout carries the MCP stdio transport): one JSON object per line with a level
+// ABOUTME: Fields set with withLogContext, such as the request ID, are added to every line logged while handling that request
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Lines below this level are dropped (LOG_LEVEL, default info)
+const requestedLevel = process.env.LOG_LEVEL?.toLowerCase() ?? 'info';
+const LOG_LEVEL: LogLevel = requestedLevel in LEVELS ? requestedLevel as LogLevel : 'info';
+
+// json (default) for log collectors, or text for reading in a terminal
+const LOG_FORMAT = process.env.LOG_FORMAT === 'text' ? 'text' : 'json';
+
+const context = new AsyncLocalStorage<LogFields>();
+
+// Short random ID tying together everything logged for one message, command, MCP call or scheduled run
+export function newRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+// Run fn with fields added to every line it logs, including from async work it starts
+export function withLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+export function logContext(): LogFields {
+  return context.getStore() ?? {};
+}
+
+// Errors don't survive JSON.stringify on their own
+function toJson(_key: string, value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, ...(LOG_LEVEL === 'debug' ? { stack: value.stack } : {}) };
+  }
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+function write(level: LogLevel, component: string, message: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < LEVELS[LOG_LEVEL]) return;
+  const entry = { time: new Date().toISOString(), level, component, msg: message, ...logContext(), ...fields };
+
+  if (LOG_FORMAT === 'text') {
+    const { time, level: _level, component: _component, msg, ...rest } = entry;
+    const extra = Object.entries(rest).map(([key, value]) => `${key}=${JSON.stringify(value, toJson)}`).join(' ');
+    process.stderr.write(`${time} ${level.toUpperCase()} [${component}] ${msg}${extra ? ` ${extra}` : ''}\n`);
+  } else {
+    process.stderr.write(`${JSON.stringify(entry, toJson)}\n`);
+  }
+}
+
+export function createLogger(component: string): Logger {
+  return {
+    debug: (message, fields) => write('debug', component, message, fields),
+    info: (message, fields) => write('info', component, message, fields),
+    warn: (message, fields) => write('warn', component, message, fields),
+    error: (message, fields) => write('error', component, message, fields),
+  };
+}
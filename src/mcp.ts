@@ -0,0 +1,122 @@
+// ABOUTME: MCP server setup shared by both entrypoints
+// ABOUTME: Serves the tool registry, readable channels as subscribable resources, and workflow prompts
+
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { toolRegistry, formatToolError, toToolContent, type ToolContext } from './tools/index.js';
+import {
+  CHANNEL_URI_TEMPLATE,
+  listChannelResources,
+  readChannelResource,
+  resolveChannelUri,
+  watchSubscriptions,
+} from './resources.js';
+import { getPrompt, listPrompts } from './prompts.js';
+import { newRequestId, withLogContext } from './logger.js';
+
+export function createMcpServer(info: { name: string; version: string }, ctx: ToolContext): Server {
+  const server = new Server(info, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true },
+      prompts: {},
+    },
+  });
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: toolRegistry.toMcpTools(),
+    };
+  });
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      const result = await withLogContext(
+        { requestId: newRequestId(), sessionId: extra.sessionId },
+        () => toolRegistry.execute(name, args, { ...ctx, caller: { type: 'mcp', sessionId: extra.sessionId } })
+      );
+      return {
+        content: toToolContent(result),
+      };
+    } catch (error) {
+      throw new Error(formatToolError(error));
+    }
+  });
+
+  // Channels as resources
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return {
+      resources: listChannelResources(ctx),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return {
+      resourceTemplates: [{
+        uriTemplate: CHANNEL_URI_TEMPLATE,
+        name: 'Discord channel',
+        description: 'Recent messages in a channel, thread or forum post',
+        mimeType: 'application/json',
+      }],
+    };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    try {
+      return await readChannelResource(ctx, request.params.uri);
+    } catch (error) {
+      throw new Error(formatToolError(error));
+    }
+  });
+
+  // Subscriptions live as long as this server's connection
+  const subscriptions = new Set<string>();
+  const unwatch = watchSubscriptions(server, ctx.client, subscriptions);
+  server.onclose = unwatch;
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    try {
+      await resolveChannelUri(ctx, request.params.uri);
+    } catch (error) {
+      throw new Error(formatToolError(error));
+    }
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  // Prompt templates with channel history embedded
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return {
+      prompts: listPrompts(),
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    try {
+      return await getPrompt(request.params.name, request.params.arguments ?? {}, { ...ctx, caller: { type: 'mcp', sessionId: extra.sessionId } });
+    } catch (error) {
+      throw new Error(formatToolError(error));
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,175 @@
+// ABOUTME: Access policy for Discord tools: read/write allow and deny lists, role rules and dry-run mode
+// ABOUTME: Loaded from a JSON file (POLICY_FILE, default policy.json); with no file everything is allowed
+
+import fs from 'node:fs';
+import type { Guild, Message } from 'discord.js';
+import type { MessageChannel, ThreadParentChannel } from './discord.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('policy');
+
+export type Access = 'read' | 'write';
+
+// Who is asking: a Discord user talking to the bot, or an MCP client
+export type ToolCaller =
+  | { type: 'discord'; userId: string; username?: string }
+  | { type: 'mcp'; sessionId?: string };
+
+// Entries are IDs or names (channel names with or without "#")
+interface Rule {
+  allow?: string[];
+  deny?: string[];
+}
+
+interface AccessRules {
+  guilds?: Rule;
+  channels?: Rule;
+}
+
+export interface PolicyConfig {
+  // Mutating tools describe what they would do instead of doing it
+  dryRun?: boolean;
+  read?: AccessRules;
+  write?: AccessRules & {
+    // Roles of the Discord user who triggers a write through the bot
+    roles?: Rule;
+    // Let delete_message remove messages the bot didn't write (needs Manage Messages in Discord too)
+    othersMessages?: boolean;
+  };
+}
+
+// Thrown when the policy blocks an action; the message is meant for the model and the user
+export class PolicyError extends Error {
+  constructor(message: string) {
+    super(`Permission denied: ${message}`);
+    this.name = 'PolicyError';
+  }
+}
+
+interface Named {
+  id: string;
+  name: string;
+}
+
+function matches(entries: string[] | undefined, targets: Named[]): boolean {
+  if (!entries || entries.length === 0) return false;
+  const wanted = entries.map(e => e.replace(/^#/, '').toLowerCase());
+  return targets.some(t => wanted.includes(t.id) || wanted.includes(t.name.toLowerCase()));
+}
+
+// Deny wins; a non-empty allow list means only listed targets pass
+function permitted(rule: Rule | undefined, targets: Named[]): boolean {
+  if (!rule) return true;
+  if (matches(rule.deny, targets)) return false;
+  if (rule.allow && rule.allow.length > 0) return matches(rule.allow, targets);
+  return true;
+}
+
+// A thread is governed by its own rules and its parent channel's
+function channelTargets(channel: MessageChannel | ThreadParentChannel): Named[] {
+  const targets: Named[] = [{ id: channel.id, name: channel.name }];
+  if (channel.isThread() && channel.parent) {
+    targets.push({ id: channel.parent.id, name: channel.parent.name });
+  }
+  return targets;
+}
+
+export class Policy {
+  constructor(private config: PolicyConfig = {}) {}
+
+  static load(file: string = process.env.POLICY_FILE || 'policy.json'): Policy {
+    let config: PolicyConfig = {};
+    if (fs.existsSync(file)) {
+      try {
+        config = JSON.parse(fs.readFileSync(file, 'utf8'));
+        log.info('Loaded access policy', { file });
+      } catch (error) {
+        throw new Error(`Invalid policy file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (process.env.POLICY_FILE) {
+      throw new Error(`Policy file ${file} not found`);
+    }
+    if (process.env.POLICY_DRY_RUN !== undefined) {
+      config.dryRun = process.env.POLICY_DRY_RUN === 'true';
+    }
+    return new Policy(config);
+  }
+
+  get dryRun(): boolean {
+    return !!this.config.dryRun;
+  }
+
+  canAccessGuild(access: Access, guild: Named): boolean {
+    return permitted(this.config[access]?.guilds, [guild]);
+  }
+
+  // Works on raw IDs and names so archived messages can be filtered without fetching channels
+  canAccessChannel(access: Access, guild: Named, channels: Named[]): boolean {
+    return this.canAccessGuild(access, guild) && permitted(this.config[access]?.channels, channels);
+  }
+
+  checkGuildRead(guild: Guild): void {
+    if (!this.canAccessGuild('read', guild)) {
+      throw new PolicyError(`reading ${guild.name} is not allowed by the bot's access policy.`);
+    }
+  }
+
+  canRead(channel: MessageChannel): boolean {
+    return this.canAccessChannel('read', channel.guild, channelTargets(channel));
+  }
+
+  checkRead(channel: MessageChannel): void {
+    if (!this.canRead(channel)) {
+      throw new PolicyError(`reading #${channel.name} in ${channel.guild.name} is not allowed by the bot's access policy.`);
+    }
+  }
+
+  // Forum and media channels count as channels being written to when posts are created in them
+  async checkWrite(channel: MessageChannel | ThreadParentChannel, caller?: ToolCaller): Promise<void> {
+    if (!this.canAccessChannel('write', channel.guild, channelTargets(channel))) {
+      throw new PolicyError(`writing to #${channel.name} in ${channel.guild.name} is not allowed by the bot's access policy.`);
+    }
+    if (caller?.type === 'discord') {
+      await this.checkRoles(channel.guild, caller.userId);
+    }
+  }
+
+  // A channel that doesn't exist yet is checked by its name and its category
+  async checkCreateChannel(guild: Guild, name: string, category: Named | null, caller?: ToolCaller): Promise<void> {
+    const targets: Named[] = [{ id: '', name }, ...(category ? [category] : [])];
+    if (!this.canAccessChannel('write', guild, targets)) {
+      throw new PolicyError(`creating #${name} in ${guild.name} is not allowed by the bot's access policy.`);
+    }
+    if (caller?.type === 'discord') {
+      await this.checkRoles(guild, caller.userId);
+    }
+  }
+
+  // Edits and deletes are limited to the bot's own messages unless the policy opts in.
+  // Discord never lets bots edit other people's messages, so edits stay limited regardless.
+  checkMessageOwnership(message: Message, action: 'edit' | 'delete'): void {
+    if (message.author.id === message.client.user.id) return;
+    if (action === 'edit') {
+      throw new PolicyError(`message ${message.id} was written by ${message.author.tag}; the bot can only edit its own messages.`);
+    }
+    if (!this.config.write?.othersMessages) {
+      throw new PolicyError(`message ${message.id} was written by ${message.author.tag}; the bot's access policy only allows deleting its own messages.`);
+    }
+  }
+
+  // Role rules are checked against the caller's roles in the guild being written to
+  private async checkRoles(guild: Guild, userId: string): Promise<void> {
+    const rule = this.config.write?.roles;
+    if (!rule || ((!rule.allow || rule.allow.length === 0) && (!rule.deny || rule.deny.length === 0))) return;
+
+    const member = await guild.members.fetch(userId).catch(() => null);
+    if (!member) {
+      throw new PolicyError(`you must be a member of ${guild.name} to make the bot post there.`);
+    }
+
+    const roles = member.roles.cache.map(role => ({ id: role.id, name: role.name }));
+    if (!permitted(rule, roles)) {
+      throw new PolicyError(`your roles in ${guild.name} don't allow triggering write actions through the bot.`);
+    }
+  }
+}
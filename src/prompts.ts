@@ -0,0 +1,170 @@
+// ABOUTME: MCP prompt templates for common Discord workflows (summaries, catch-up, announcements, action items)
+// ABOUTME: Each prompt fetches the relevant history up front and embeds it as a transcript in the prompt message
+
+import { SnowflakeUtil, type Message } from 'discord.js';
+import { describeChannel, findGuild, isMessageChannel, resolveMentions, type MessageChannel } from './discord.js';
+import { fetchMessageHistory } from './history.js';
+import { parseSince } from './durations.js';
+import { resolveTarget } from './tools/targets.js';
+import type { ToolContext } from './tools/index.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('prompts');
+
+// History embedded per channel; catch-up spreads a smaller budget over many channels
+const PROMPT_MESSAGE_LIMIT = Number(process.env.PROMPT_MESSAGE_LIMIT) || 200;
+const CATCH_UP_PER_CHANNEL = 50;
+const CATCH_UP_MAX_CHANNELS = 25;
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Builds the text of the single user message
+  build: (args: Record<string, string | undefined>, ctx: ToolContext) => Promise<string>;
+}
+
+const serverArgument: PromptArgument = { name: 'server', description: 'Server name or ID (optional if the bot is only in one server)' };
+const channelArgument: PromptArgument = { name: 'channel', description: 'Channel name or ID', required: true };
+const threadArgument: PromptArgument = { name: 'thread', description: 'Thread or forum post name or ID inside the channel' };
+const sinceArgument: PromptArgument = { name: 'since', description: 'How far back to look: a duration such as 12h, 3d or 1w, or an ISO date (default 24h)' };
+
+// Accepts the slash-command duration format or an ISO date
+function parseStart(value: string | undefined): Date {
+  if (!value) return parseSince('24h');
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? parseSince(value) : new Date(date);
+}
+
+function formatTranscript(messages: Message[]): string {
+  if (messages.length === 0) return '(no messages)';
+  return messages.map(m => {
+    const files = m.attachments.size > 0 ? ` [attachments: ${m.attachments.map(a => a.name).join(', ')}]` : '';
+    return `[${m.createdAt.toISOString()}] (${m.id}) ${m.author.tag}: ${resolveMentions(m)}${files}`;
+  }).join('\n');
+}
+
+function lastActivity(channel: MessageChannel): number {
+  return channel.lastMessageId ? SnowflakeUtil.timestampFrom(channel.lastMessageId) : 0;
+}
+
+function transcriptBlock(channel: MessageChannel, messages: Message[]): string {
+  return `<channel name="${describeChannel(channel)}" server="${channel.guild.name}" id="${channel.id}">\n${formatTranscript(messages)}\n</channel>`;
+}
+
+async function readTarget(ctx: ToolContext, args: Record<string, string | undefined>, limit: number, since?: Date) {
+  const channel = await resolveTarget(ctx, { server: args.server, channel: args.channel ?? '', thread: args.thread }, 'read');
+  const { messages } = await fetchMessageHistory(channel, { limit, start_date: since?.toISOString() });
+  return { channel, messages };
+}
+
+export const prompts: PromptDefinition[] = [
+  {
+    name: 'summarize_channel',
+    description: 'Summarize a channel or thread since a point in time',
+    arguments: [serverArgument, channelArgument, threadArgument, sinceArgument],
+    build: async (args, ctx) => {
+      const since = parseStart(args.since);
+      const { channel, messages } = await readTarget(ctx, args, PROMPT_MESSAGE_LIMIT, since);
+      return `Summarize the discussion in ${describeChannel(channel)} (${channel.guild.name}) since ${since.toISOString()}.
+Cover the main topics, decisions made, open questions and who is driving each thread of conversation.
+Keep it skimmable: short sections with bullet points.
+
+${transcriptBlock(channel, messages)}`;
+    },
+  },
+  {
+    name: 'catch_up',
+    description: 'Catch up on everything across the channels of a server since a point in time',
+    arguments: [serverArgument, sinceArgument],
+    build: async (args, ctx) => {
+      const since = parseStart(args.since);
+      const guild = await findGuild(ctx.client, args.server);
+      ctx.policy.checkGuildRead(guild);
+
+      const channels = guild.channels.cache
+        .filter((c): c is MessageChannel => isMessageChannel(c) && !(c.isThread() && c.archived))
+        .filter(c => ctx.policy.canAccessChannel('read', guild, c.isThread() && c.parent ? [c, c.parent] : [c]))
+        // Skip channels that have been quiet since then, most recently active first
+        .filter(c => lastActivity(c) >= since.getTime())
+        .sort((a, b) => lastActivity(b) - lastActivity(a))
+        .first(CATCH_UP_MAX_CHANNELS);
+
+      const blocks: string[] = [];
+      for (const channel of channels) {
+        const { messages } = await fetchMessageHistory(channel, { limit: CATCH_UP_PER_CHANNEL, start_date: since.toISOString() })
+          .catch((error) => {
+            log.warn('Skipping channel in catch-up', { channel: describeChannel(channel), error });
+            return { messages: [] as Message[] };
+          });
+        if (messages.length > 0) blocks.push(transcriptBlock(channel, messages));
+      }
+
+      return `Catch me up on ${guild.name} since ${since.toISOString()}.
+Go channel by channel, most important first. For each, give the gist in one or two sentences and call out
+decisions, announcements, questions aimed at the team and anything that looks urgent. Skip channels with only small talk.
+
+${blocks.length > 0 ? blocks.join('\n\n') : '(no new messages in any readable channel)'}`;
+    },
+  },
+  {
+    name: 'draft_announcement',
+    description: 'Draft an announcement for a channel, matching the tone of recent posts there',
+    arguments: [
+      serverArgument,
+      channelArgument,
+      { name: 'topic', description: 'What the announcement is about', required: true },
+    ],
+    build: async (args, ctx) => {
+      const { channel, messages } = await readTarget(ctx, args, 20);
+      return `Draft an announcement for ${describeChannel(channel)} in ${channel.guild.name} about: ${args.topic}
+Match the tone, formatting and length of the recent posts below. Use Discord markdown, lead with the key
+information and end with any call to action. Return only the draft; don't post it.
+
+Recent posts in the channel:
+${transcriptBlock(channel, messages)}`;
+    },
+  },
+  {
+    name: 'extract_action_items',
+    description: 'Extract action items, owners and deadlines from a thread or channel',
+    arguments: [serverArgument, channelArgument, threadArgument],
+    build: async (args, ctx) => {
+      const { channel, messages } = await readTarget(ctx, args, PROMPT_MESSAGE_LIMIT);
+      return `Extract the action items from the conversation in ${describeChannel(channel)} (${channel.guild.name}).
+List each as a checklist item with the owner (or "unassigned"), any deadline mentioned, and the ID of the
+message it came from. Leave out items that were clearly completed later in the conversation.
+
+${transcriptBlock(channel, messages)}`;
+    },
+  },
+];
+
+export function listPrompts() {
+  return prompts.map(({ name, description, arguments: args }) => ({ name, description, arguments: args }));
+}
+
+export async function getPrompt(name: string, args: Record<string, string | undefined>, ctx: ToolContext) {
+  const prompt = prompts.find(p => p.name === name);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments.filter(a => a.required && !args[a.name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing required arguments: ${missing.map(a => a.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user' as const,
+      content: { type: 'text' as const, text: await prompt.build(args, ctx) },
+    }],
+  };
+}
@@ -0,0 +1,125 @@
+// ABOUTME: Readable channels exposed as MCP resources (discord://guild/<id>/channel/<id>)
+// ABOUTME: Lists and reads channel history and notifies subscribers when messages arrive, change or are deleted
+
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { Client, Message, PartialMessage } from 'discord.js';
+import { describeChannel, isMessageChannel, type MessageChannel } from './discord.js';
+import { fetchMessageHistory } from './history.js';
+import { summarizeMessage } from './tools/messages.js';
+import type { ToolContext } from './tools/index.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('resources');
+
+// Messages returned when a channel resource is read
+export const RESOURCE_MESSAGE_LIMIT = Number(process.env.RESOURCE_MESSAGE_LIMIT) || 50;
+
+export const CHANNEL_URI_TEMPLATE = 'discord://guild/{guildId}/channel/{channelId}';
+
+const CHANNEL_URI = /^discord:\/\/guild\/(\d+)\/channel\/(\d+)$/;
+
+export function channelUri(channel: MessageChannel): string {
+  return `discord://guild/${channel.guildId}/channel/${channel.id}`;
+}
+
+// Every channel and active thread the policy lets MCP clients read
+export function listChannelResources(ctx: ToolContext) {
+  const resources = [];
+  for (const guild of ctx.client.guilds.cache.values()) {
+    if (!ctx.policy.canAccessGuild('read', guild)) continue;
+    for (const channel of guild.channels.cache.values()) {
+      if (!isMessageChannel(channel) || (channel.isThread() && channel.archived)) continue;
+      const targets = channel.isThread() && channel.parent ? [channel, channel.parent] : [channel];
+      if (!ctx.policy.canAccessChannel('read', guild, targets)) continue;
+      resources.push({
+        uri: channelUri(channel),
+        name: `${guild.name} ${describeChannel(channel)}`,
+        description: 'topic' in channel && channel.topic ? channel.topic : undefined,
+        mimeType: 'application/json',
+      });
+    }
+  }
+  return resources;
+}
+
+// Resolve a resource URI to a channel, enforcing the read policy
+export async function resolveChannelUri(ctx: ToolContext, uri: string): Promise<MessageChannel> {
+  const match = uri.match(CHANNEL_URI);
+  if (!match) {
+    throw new Error(`Unknown resource URI "${uri}". Expected ${CHANNEL_URI_TEMPLATE}.`);
+  }
+  const [, guildId, channelId] = match;
+  const channel = await ctx.client.channels.fetch(channelId).catch(() => null);
+  if (!isMessageChannel(channel) || channel.guildId !== guildId) {
+    throw new Error(`Channel ${channelId} not found in server ${guildId}.`);
+  }
+  ctx.policy.checkRead(channel);
+  return channel;
+}
+
+export async function readChannelResource(ctx: ToolContext, uri: string) {
+  const channel = await resolveChannelUri(ctx, uri);
+  const { messages } = await fetchMessageHistory(channel, { limit: RESOURCE_MESSAGE_LIMIT });
+  return {
+    contents: [{
+      uri,
+      mimeType: 'application/json',
+      text: JSON.stringify({
+        server: channel.guild.name,
+        channel: describeChannel(channel),
+        messages: messages.map(summarizeMessage),
+      }, null, 2),
+    }],
+  };
+}
+
+type MessageWatcher = (message: Message | PartialMessage) => void;
+
+// Every MCP session watches the same client, so one set of gateway listeners fans out to all of them
+// instead of each session adding its own (which trips the max-listeners warning past 10 sessions)
+const clientWatchers = new WeakMap<Client, { watchers: Set<MessageWatcher>; detach: () => void }>();
+
+function addWatcher(client: Client, watcher: MessageWatcher): () => void {
+  let entry = clientWatchers.get(client);
+  if (!entry) {
+    const watchers = new Set<MessageWatcher>();
+    const dispatch = (message: Message | PartialMessage) => watchers.forEach(watch => watch(message));
+    const onUpdate = (_old: Message | PartialMessage, message: Message | PartialMessage) => dispatch(message);
+    client.on('messageCreate', dispatch);
+    client.on('messageUpdate', onUpdate);
+    client.on('messageDelete', dispatch);
+    entry = {
+      watchers,
+      detach: () => {
+        client.off('messageCreate', dispatch);
+        client.off('messageUpdate', onUpdate);
+        client.off('messageDelete', dispatch);
+      },
+    };
+    clientWatchers.set(client, entry);
+  }
+
+  const current = entry;
+  current.watchers.add(watcher);
+  return () => {
+    current.watchers.delete(watcher);
+    // The entry may already have been replaced if this runs twice
+    if (current.watchers.size === 0 && clientWatchers.get(client) === current) {
+      current.detach();
+      clientWatchers.delete(client);
+    }
+  };
+}
+
+// Send notifications/resources/updated for subscribed channels on gateway message events.
+// Returns a function that stops watching again.
+export function watchSubscriptions(server: Server, client: Client, subscriptions: Set<string>): () => void {
+  return addWatcher(client, (message) => {
+    if (!isMessageChannel(message.channel)) return;
+    const uri = channelUri(message.channel);
+    if (!subscriptions.has(uri)) return;
+    server.sendResourceUpdated({ uri }).catch(error => {
+      log.warn('Failed to notify resource subscribers', { uri, error });
+    });
+  });
+}
@@ -0,0 +1,220 @@
+// ABOUTME: Persistent scheduler for one-off and cron-recurring posts, stored in SQLite so jobs survive restarts
+// ABOUTME: Fixed messages and LLM prompt answers are both posted through the send_message tool as the user who scheduled them
+
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import { toolRegistry, toolResultText, type ToolContext } from './tools/index.js';
+import { nextCronRun, parseCron } from './cron.js';
+import { splitMessage } from './streaming-reply.js';
+import type { ToolCaller } from './policy.js';
+import { createLogger, newRequestId, withLogContext } from './logger.js';
+
+const log = createLogger('scheduler');
+
+const SCHEDULE_PATH = process.env.SCHEDULE_PATH || path.join('data', 'schedule.db');
+
+// How often due jobs are checked for
+const POLL_INTERVAL_MS = 30_000;
+
+// Discord's message length limit; longer prompt answers are attached as answer.md
+const MAX_MESSAGE_LENGTH = 2000;
+
+export type JobKind = 'message' | 'prompt';
+
+export interface ScheduledJob {
+  id: number;
+  guildId: string;
+  channelId: string;
+  channelName: string;
+  kind: JobKind;
+  // Message text, or the prompt whose answer is posted
+  content: string;
+  // Null for one-off jobs
+  cron: string | null;
+  timezone: string;
+  // Null once a one-off job has failed
+  nextRun: number | null;
+  createdBy?: ToolCaller;
+  createdAt: number;
+  lastRun: number | null;
+  lastError: string | null;
+}
+
+export type NewJob = Pick<ScheduledJob, 'guildId' | 'channelId' | 'channelName' | 'kind' | 'content' | 'cron' | 'timezone' | 'nextRun' | 'createdBy'>;
+
+// Runs a scheduled prompt through the LLM tool loop and returns the answer to post
+export type PromptRunner = (job: ScheduledJob) => Promise<string>;
+
+interface JobRow {
+  id: number;
+  guild_id: string;
+  channel_id: string;
+  channel_name: string;
+  kind: JobKind;
+  content: string;
+  cron: string | null;
+  timezone: string;
+  next_run: number | null;
+  created_by: string | null;
+  created_at: number;
+  last_run: number | null;
+  last_error: string | null;
+}
+
+function fromRow(row: JobRow): ScheduledJob {
+  return {
+    id: row.id,
+    guildId: row.guild_id,
+    channelId: row.channel_id,
+    channelName: row.channel_name,
+    kind: row.kind,
+    content: row.content,
+    cron: row.cron,
+    timezone: row.timezone,
+    nextRun: row.next_run,
+    createdBy: row.created_by ? JSON.parse(row.created_by) : undefined,
+    createdAt: row.created_at,
+    lastRun: row.last_run,
+    lastError: row.last_error,
+  };
+}
+
+export class Scheduler {
+  private db: Database.Database;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  // Without a prompt runner (the MCP-only server) only fixed messages can be scheduled
+  constructor(private runPrompt?: PromptRunner, filename: string = SCHEDULE_PATH) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        channel_name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        content TEXT NOT NULL,
+        cron TEXT,
+        timezone TEXT NOT NULL,
+        next_run INTEGER,
+        created_by TEXT,
+        created_at INTEGER NOT NULL,
+        last_run INTEGER,
+        last_error TEXT
+      );
+      CREATE INDEX IF NOT EXISTS jobs_next_run ON jobs (next_run);
+    `);
+  }
+
+  get runsPrompts(): boolean {
+    return this.runPrompt !== undefined;
+  }
+
+  add(job: NewJob): ScheduledJob {
+    const { lastInsertRowid } = this.db.prepare(`
+      INSERT INTO jobs (guild_id, channel_id, channel_name, kind, content, cron, timezone, next_run, created_by, created_at)
+      VALUES (@guildId, @channelId, @channelName, @kind, @content, @cron, @timezone, @nextRun, @createdBy, @createdAt)
+    `).run({
+      ...job,
+      createdBy: job.createdBy ? JSON.stringify(job.createdBy) : null,
+      createdAt: Date.now(),
+    });
+    return this.get(Number(lastInsertRowid))!;
+  }
+
+  get(id: number): ScheduledJob | undefined {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(id) as JobRow | undefined;
+    return row && fromRow(row);
+  }
+
+  list(guildId?: string): ScheduledJob[] {
+    const rows = guildId
+      ? this.db.prepare('SELECT * FROM jobs WHERE guild_id = ? ORDER BY next_run IS NULL, next_run').all(guildId)
+      : this.db.prepare('SELECT * FROM jobs ORDER BY next_run IS NULL, next_run').all();
+    return (rows as JobRow[]).map(fromRow);
+  }
+
+  remove(id: number): void {
+    this.db.prepare('DELETE FROM jobs WHERE id = ?').run(id);
+  }
+
+  // Start polling for due jobs. Jobs that came due while the bot was offline run once, right away.
+  start(ctx: ToolContext): void {
+    this.stop();
+    this.timer = setInterval(() => void this.tick(ctx), POLL_INTERVAL_MS);
+    void this.tick(ctx);
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async tick(ctx: ToolContext): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+    try {
+      const due = this.db.prepare('SELECT * FROM jobs WHERE next_run <= ? ORDER BY next_run').all(Date.now()) as JobRow[];
+      for (const row of due) {
+        await this.run(ctx, fromRow(row));
+      }
+    } catch (error) {
+      log.error('Scheduler tick failed', { error });
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  // Each run gets its own request ID so its LLM rounds and tool calls can be traced
+  private run(ctx: ToolContext, job: ScheduledJob): Promise<void> {
+    return withLogContext({ requestId: newRequestId(), jobId: job.id }, () => this.runJob(ctx, job));
+  }
+
+  private async runJob(ctx: ToolContext, job: ScheduledJob): Promise<void> {
+    // Move recurring jobs on before running so a slow or failing run isn't repeated
+    const nextRun = job.cron ? nextCronRun(parseCron(job.cron), new Date(), job.timezone).getTime() : null;
+    this.db.prepare('UPDATE jobs SET next_run = ? WHERE id = ?').run(nextRun, job.id);
+
+    log.info('Running scheduled job', { kind: job.kind, guildId: job.guildId, channelId: job.channelId });
+    let error: string | null = null;
+    try {
+      await this.post(ctx, job);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      log.warn('Scheduled job failed', { error });
+    }
+
+    // Finished one-off jobs are removed; failed ones stay listed with their error
+    if (!job.cron && !error) {
+      this.remove(job.id);
+    } else {
+      this.db.prepare('UPDATE jobs SET last_run = ?, last_error = ? WHERE id = ?').run(Date.now(), error, job.id);
+    }
+  }
+
+  private async post(ctx: ToolContext, job: ScheduledJob): Promise<void> {
+    let text = job.content;
+    if (job.kind === 'prompt') {
+      if (!this.runPrompt) {
+        throw new Error('Scheduled prompts need the LLM bot; the MCP-only server can only post fixed messages.');
+      }
+      text = (await this.runPrompt(job)).trim();
+    }
+
+    const content = text.length > MAX_MESSAGE_LENGTH
+      ? { message: `${splitMessage(text, 1500)[0]}\n\n*The full answer is attached as answer.md.*`, files: [{ filename: 'answer.md', content: text }] }
+      : { message: text };
+    const result = await toolRegistry.execute(
+      'send_message',
+      { server: job.guildId, channel: job.channelId, ...content },
+      { ...ctx, caller: job.createdBy, guildId: job.guildId }
+    );
+    log.info('Scheduled job posted', { result: toolResultText(result) });
+  }
+}
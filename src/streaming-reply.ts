@@ -0,0 +1,208 @@
+// ABOUTME: Progressive Discord reply that is edited as the LLM streams tokens
+// ABOUTME: Rolls over into follow-up messages past the 2000-character limit, or attaches very long answers as .md
+
+import { AttachmentBuilder, type Message } from 'discord.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('reply');
+
+// Leave headroom under Discord's 2000-character limit for the status line
+const MAX_LENGTH = 1950;
+
+// Discord rate-limits edits, so batch token updates
+const EDIT_INTERVAL_MS = 1000;
+
+const PLACEHOLDER = '*Thinking…*';
+
+// Final answers longer than this go out as an answer.md attachment with a preview (0 to always split into messages)
+export const LONG_ANSWER_ATTACHMENT_LENGTH = Number(process.env.LONG_ANSWER_ATTACHMENT_LENGTH ?? 4000);
+
+// Preview plus .md attachment for an oversized answer, or null when it should be posted as messages
+export function longAnswerPayload(text: string): { content: string; files: AttachmentBuilder[] } | null {
+  if (!LONG_ANSWER_ATTACHMENT_LENGTH || text.length <= LONG_ANSWER_ATTACHMENT_LENGTH) return null;
+  const preview = splitMessage(text, 1500)[0];
+  return {
+    content: `${preview}\n\n*The full answer is attached as answer.md.*`,
+    files: [new AttachmentBuilder(Buffer.from(text, 'utf8'), { name: 'answer.md' })],
+  };
+}
+
+// Split text into Discord-sized chunks, preferring paragraph, sentence and line breaks
+export function splitMessage(text: string, maxLength: number = MAX_LENGTH): string[] {
+  const parts: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > 0) {
+    if (remaining.length <= maxLength) {
+      parts.push(remaining);
+      break;
+    }
+
+    let splitPoint = maxLength;
+
+    // Try to split at natural break points
+    const paragraphBreak = remaining.lastIndexOf('\n\n', maxLength);
+    if (paragraphBreak > maxLength * 0.5) {
+      splitPoint = paragraphBreak;
+    } else {
+      const sentenceEnd = remaining.lastIndexOf('. ', maxLength);
+      if (sentenceEnd > maxLength * 0.7) {
+        splitPoint = sentenceEnd + 1;
+      } else {
+        const lineBreak = remaining.lastIndexOf('\n', maxLength);
+        if (lineBreak > maxLength * 0.7) {
+          splitPoint = lineBreak;
+        }
+      }
+    }
+
+    parts.push(remaining.substring(0, splitPoint).trim());
+    remaining = remaining.substring(splitPoint).trim();
+  }
+
+  return parts;
+}
+
+export class StreamingReply {
+  private text = '';
+  private status: string | null = null;
+  private sent: Message[] = [];
+  private rendered: string[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private trigger: Message) {}
+
+  // Post the placeholder reply right away so the user sees the bot is working. Without it, nothing
+  // is posted until finish or fail, which reply once.
+  async start(): Promise<void> {
+    const placeholder = await this.trigger.reply(PLACEHOLDER);
+    this.sent = [placeholder];
+    this.rendered = [PLACEHOLDER];
+  }
+
+  append(delta: string): void {
+    this.text += delta;
+    this.schedule();
+  }
+
+  // Replace everything written so far, e.g. with the cleaned-up final answer
+  setText(text: string): void {
+    this.text = text;
+    this.schedule();
+  }
+
+  // Status line such as "reading #general…", or null to clear it
+  setStatus(status: string | null): void {
+    this.status = status;
+    this.schedule();
+  }
+
+  async finish(finalText?: string): Promise<void> {
+    if (finalText !== undefined) {
+      this.text = finalText;
+    }
+    this.status = null;
+
+    const attachment = longAnswerPayload(this.text.trim());
+    if (attachment) {
+      if (this.timer) {
+        clearTimeout(this.timer);
+        this.timer = null;
+      }
+      this.pending = this.pending.then(() => this.renderAttachment(attachment));
+      await this.pending;
+      return;
+    }
+
+    await this.flushNow();
+  }
+
+  async fail(errorText: string): Promise<void> {
+    this.text = this.text.trim() ? `${this.text}\n\n${errorText}` : errorText;
+    this.status = null;
+    await this.flushNow();
+  }
+
+  // Remove everything posted so far, e.g. when the question was deleted
+  async discard(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.pending.catch(() => undefined);
+    await this.dropExtra(0);
+  }
+
+  private schedule(): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.pending = this.pending.then(() => this.render()).catch(error => {
+        log.warn('Failed to update streaming reply', { error });
+      });
+    }, EDIT_INTERVAL_MS);
+  }
+
+  private async flushNow(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.pending = this.pending.then(() => this.render());
+    await this.pending;
+  }
+
+  private chunks(): string[] {
+    const body = this.text.trim();
+    const chunks = body ? splitMessage(body) : [];
+    if (this.status) {
+      const statusLine = `*${this.status}…*`;
+      const last = chunks[chunks.length - 1];
+      if (last !== undefined && last.length + statusLine.length + 2 <= 2000) {
+        chunks[chunks.length - 1] = `${last}\n\n${statusLine}`;
+      } else {
+        chunks.push(statusLine);
+      }
+    }
+    return chunks.length > 0 ? chunks : [PLACEHOLDER];
+  }
+
+  // Bring the posted messages in line with the current text: edit changed ones, send new ones, drop leftovers
+  private async render(): Promise<void> {
+    const chunks = this.chunks();
+
+    for (let i = 0; i < chunks.length; i++) {
+      if (i < this.sent.length) {
+        if (this.rendered[i] !== chunks[i]) {
+          await this.sent[i].edit(chunks[i]);
+          this.rendered[i] = chunks[i];
+        }
+      } else {
+        this.sent.push(await this.trigger.reply(chunks[i]));
+        this.rendered.push(chunks[i]);
+      }
+    }
+
+    await this.dropExtra(chunks.length);
+  }
+
+  // Collapse everything into the first reply, carrying the full answer as a file
+  private async renderAttachment(payload: NonNullable<ReturnType<typeof longAnswerPayload>>): Promise<void> {
+    if (this.sent.length === 0) {
+      this.sent.push(await this.trigger.reply(payload));
+    } else {
+      await this.sent[0].edit(payload);
+    }
+    this.rendered = [payload.content];
+    await this.dropExtra(1);
+  }
+
+  private async dropExtra(keep: number): Promise<void> {
+    while (this.sent.length > keep) {
+      const extra = this.sent.pop()!;
+      await extra.delete().catch(() => undefined);
+    }
+    this.rendered = this.rendered.slice(0, keep);
+  }
+}
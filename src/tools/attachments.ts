@@ -0,0 +1,54 @@
+// ABOUTME: read_attachment tool: opens a file attached to a message
+// ABOUTME: Text and code come back as text, images as image content the model or MCP client can view
+
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+import { describeTarget, messageTarget, messageTargetAliases, resolveTarget } from './targets.js';
+import { fetchMessage } from '../history.js';
+import { attachmentKind, readImageAttachment, readTextAttachment, ATTACHMENT_MAX_BYTES } from '../attachments.js';
+
+export const readAttachment = defineTool({
+  name: 'read_attachment',
+  description: `Open a file attached to a message. Text, JSON, logs and code come back as text; PNG, JPEG, GIF and WebP images come back as images. Files over ${ATTACHMENT_MAX_BYTES} bytes can't be opened`,
+  schema: z.object({
+    ...messageTarget,
+    attachment: z.string().optional()
+      .describe('Attachment file name or ID from read_messages (optional; defaults to the first attachment)'),
+  }),
+  aliases: {
+    ...messageTargetAliases,
+    filename: 'attachment',
+    attachment_id: 'attachment',
+    file: 'attachment',
+  },
+  status: ({ channel, thread, attachment }) => `opening ${attachment ?? 'an attachment'} in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message_id, attachment: wanted }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'read');
+    const message = await fetchMessage(channel, message_id);
+
+    if (message.attachments.size === 0) {
+      throw new Error(`Message ${message.id} has no attachments.`);
+    }
+    const attachment = wanted
+      ? message.attachments.find(a => a.id === wanted || a.name === wanted || a.name.toLowerCase() === wanted.toLowerCase())
+      : message.attachments.first();
+    if (!attachment) {
+      throw new Error(`No attachment "${wanted}" on message ${message.id}. Available: ${message.attachments.map(a => a.name).join(', ')}`);
+    }
+
+    const header = `${attachment.name} (${attachment.contentType ?? 'unknown type'}, ${attachment.size} bytes) from message ${message.id} by ${message.author.tag}`;
+    switch (attachmentKind(attachment)) {
+      case 'image': {
+        const image = await readImageAttachment(attachment);
+        return [
+          { type: 'text', text: header },
+          { type: 'image', data: image.data, mimeType: image.mimeType },
+        ];
+      }
+      case 'text':
+        return `${header}:\n${await readTextAttachment(attachment)}`;
+      default:
+        throw new Error(`${attachment.name} (${attachment.contentType ?? 'unknown type'}) is not a text or image file, so it can't be read. Link: ${attachment.url}`);
+    }
+  },
+});
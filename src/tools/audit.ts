@@ -0,0 +1,85 @@
+// ABOUTME: audit_log tool: recent tool calls with who made them, arguments, result and latency
+// ABOUTME: Discord users need Manage Server and only see calls made in that server; MCP clients see everything
+
+import { z } from 'zod';
+import { PermissionFlagsBits } from 'discord.js';
+import { defineTool } from './registry.js';
+import { resolveGuild } from './targets.js';
+import { parseSince } from '../durations.js';
+import { PolicyError } from '../policy.js';
+import type { AuditEntry } from '../audit.js';
+
+const RESULT_PREVIEW_CHARS = 300;
+
+function describeCaller(entry: AuditEntry): string {
+  if (entry.caller?.type === 'discord') return entry.caller.username ?? entry.caller.userId;
+  if (entry.caller?.type === 'mcp') return entry.caller.sessionId ? `MCP session ${entry.caller.sessionId}` : 'MCP client';
+  return 'unknown';
+}
+
+export const auditLog = defineTool({
+  name: 'audit_log',
+  description: 'Search the audit log of tool calls: who called which tool with what arguments, the result and how long it took (server admins only)',
+  schema: z.object({
+    server: z.string().optional().describe('Only calls made from this server (name or ID). Discord users always get one server'),
+    user: z.string().optional().describe('Only calls by this Discord user (ID or username)'),
+    tool: z.string().optional().describe('Only calls to this tool, e.g. delete_message'),
+    since: z.string().default('24h').describe('How far back to look: a duration such as 12h, 7d or 4w, or an ISO date (default 24h)'),
+    writes_only: z.boolean().default(false).describe('Only tools that change Discord'),
+    errors_only: z.boolean().default(false).describe('Only failed calls'),
+    limit: z.coerce.number().int().min(1).max(100).default(20).describe('Most entries to return, newest first (default 20)'),
+  }),
+  aliases: {
+    server_name: 'server',
+    server_id: 'server',
+    username: 'user',
+    user_id: 'user',
+    tool_name: 'tool',
+    period: 'since',
+    start_date: 'since',
+  },
+  status: () => 'checking the audit log',
+  handler: async ({ server, user, tool, since, writes_only, errors_only, limit }, ctx) => {
+    const date = Date.parse(since);
+    const start = Number.isNaN(date) ? parseSince(since).getTime() : date;
+
+    // Who did what in a server is admin information; MCP clients already hold the bot's token
+    const guild = server || ctx.caller?.type === 'discord' ? await resolveGuild(ctx, server) : undefined;
+    if (guild && ctx.caller?.type === 'discord') {
+      const member = await guild.members.fetch(ctx.caller.userId).catch(() => null);
+      if (!member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+        throw new PolicyError(`the audit log for ${guild.name} is limited to server admins (Manage Server).`);
+      }
+    }
+
+    const entries = ctx.audit.query({
+      since: start,
+      guildId: guild?.id,
+      user,
+      tool,
+      writesOnly: writes_only,
+      errorsOnly: errors_only,
+      limit,
+    });
+    const scope = guild ? ` in ${guild.name}` : '';
+    if (entries.length === 0) {
+      return `No matching tool calls${scope} since ${new Date(start).toISOString()}.`;
+    }
+
+    const rows = entries.map(entry => ({
+      id: entry.id,
+      time: new Date(entry.createdAt).toISOString(),
+      caller: describeCaller(entry),
+      ...(entry.caller?.type === 'discord' ? { userId: entry.caller.userId } : {}),
+      server: entry.guildId ? ctx.client.guilds.cache.get(entry.guildId)?.name ?? entry.guildId : null,
+      tool: entry.tool,
+      args: entry.args,
+      ...(entry.dryRun ? { dryRun: true } : {}),
+      ok: entry.ok,
+      result: entry.result.length > RESULT_PREVIEW_CHARS ? `${entry.result.slice(0, RESULT_PREVIEW_CHARS)}…` : entry.result,
+      latencyMs: entry.latencyMs,
+      requestId: entry.requestId,
+    }));
+    return `Tool calls${scope} (${rows.length}, newest first):\n${JSON.stringify(rows, null, 2)}`;
+  },
+});
@@ -0,0 +1,192 @@
+// ABOUTME: Channel and thread management tools: create and archive threads, create channels, set topics
+// ABOUTME: Every target goes through the write policy, and missing Discord permissions are reported by name
+
+import { z } from 'zod';
+import { ChannelType, PermissionFlagsBits, ThreadAutoArchiveDuration, ForumChannel, MediaChannel, TextChannel } from 'discord.js';
+import { defineTool } from './registry.js';
+import { channelTarget, channelTargetAliases, describeTarget, resolveGuild, resolveTarget } from './targets.js';
+import { checkBotPermissions, describeChannel, findCategory, findThreadParent } from '../discord.js';
+import { fetchMessage } from '../history.js';
+
+const AUTO_ARCHIVE_MINUTES = [60, 1440, 4320, 10080] as const;
+
+const autoArchiveField = z.coerce.number().refine(
+  (value): value is ThreadAutoArchiveDuration => (AUTO_ARCHIVE_MINUTES as readonly number[]).includes(value),
+  { message: `Must be one of ${AUTO_ARCHIVE_MINUTES.join(', ')}` }
+);
+
+export const createThread = defineTool({
+  name: 'create_thread',
+  description: 'Create a thread in a channel, either from an existing message or standalone. In forum channels this creates a post, which needs a first message',
+  mutating: true,
+  schema: z.object({
+    server: channelTarget.server,
+    channel: z.string().describe('Channel name or ID to create the thread in (text, announcement or forum channel)'),
+    name: z.string().min(1).max(100).describe('Thread name'),
+    message_id: z.string().optional().describe('Start the thread from this message (optional)'),
+    message: z.string().optional().describe('First message to post in the thread (required for forum posts)'),
+    private: z.boolean().optional().describe('Create a private thread (text channels only, not from a message)'),
+    auto_archive_minutes: autoArchiveField.optional()
+      .describe(`Archive after this many minutes of inactivity: ${AUTO_ARCHIVE_MINUTES.join(', ')}`),
+  }),
+  aliases: {
+    ...channelTargetAliases,
+    thread_name: 'name',
+    title: 'name',
+    content: 'message',
+    starter_message_id: 'message_id',
+  },
+  status: ({ channel, name }) => `creating thread "${name}" in ${describeTarget(channel)}`,
+  handler: async ({ server, channel: channelIdentifier, name, message_id, message, private: isPrivate, auto_archive_minutes }, ctx) => {
+    const parent = await findThreadParent(ctx.client, channelIdentifier, server);
+    await ctx.policy.checkWrite(parent, ctx.caller);
+    const isForum = parent instanceof ForumChannel || parent instanceof MediaChannel;
+
+    if (isForum && !message) {
+      throw new Error(`#${parent.name} is a forum channel; creating a post there needs a first message.`);
+    }
+    if (isPrivate && (message_id || !(parent instanceof TextChannel))) {
+      throw new Error('Private threads can only be created standalone in text channels.');
+    }
+
+    const starter = message_id && !isForum ? await fetchMessage(parent, message_id) : undefined;
+    checkBotPermissions(parent.guild, parent, [
+      isForum ? PermissionFlagsBits.SendMessages : isPrivate ? PermissionFlagsBits.CreatePrivateThreads : PermissionFlagsBits.CreatePublicThreads,
+      ...(message && !isForum ? [PermissionFlagsBits.SendMessagesInThreads] : []),
+    ], isForum ? 'create forum posts' : 'create threads');
+
+    if (ctx.dryRun) {
+      const from = starter ? ` from message ${starter.id} by ${starter.author.tag}` : '';
+      return `[Dry run] Would create ${isPrivate ? 'private ' : ''}${isForum ? 'post' : 'thread'} "${name}" in #${parent.name}${from} in ${parent.guild.name}${message ? `:\n${message}` : ''}`;
+    }
+
+    const autoArchiveDuration = auto_archive_minutes as ThreadAutoArchiveDuration | undefined;
+    let thread;
+    if (isForum) {
+      thread = await parent.threads.create({ name, autoArchiveDuration, message: { content: message! } });
+    } else if (starter) {
+      thread = await starter.startThread({ name, autoArchiveDuration });
+    } else if (isPrivate && parent instanceof TextChannel) {
+      thread = await parent.threads.create({ name, autoArchiveDuration, type: ChannelType.PrivateThread });
+    } else {
+      thread = await parent.threads.create({ name, autoArchiveDuration });
+    }
+    if (message && !isForum) {
+      await thread.send(message);
+    }
+
+    return `Created ${isForum ? 'post' : 'thread'} ${describeChannel(thread)} (ID: ${thread.id}) in ${parent.guild.name}.`;
+  },
+});
+
+export const archiveThread = defineTool({
+  name: 'archive_thread',
+  description: 'Archive a thread or forum post, optionally renaming it first (e.g. "[resolved] ...") and locking it',
+  mutating: true,
+  schema: z.object({
+    ...channelTarget,
+    thread: z.string().describe('Thread or forum post name or ID inside the channel'),
+    name: z.string().min(1).max(100).optional().describe('New thread name to set before archiving (optional)'),
+    lock: z.boolean().optional().describe('Also lock the thread so only moderators can unarchive it'),
+  }),
+  aliases: {
+    ...channelTargetAliases,
+    new_name: 'name',
+    rename: 'name',
+    locked: 'lock',
+  },
+  status: ({ channel, thread }) => `archiving ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread: threadIdentifier, name, lock }, ctx) => {
+    const thread = await resolveTarget(ctx, { server, channel: channelIdentifier, thread: threadIdentifier }, 'write');
+    if (!thread.isThread()) {
+      throw new Error(`${describeChannel(thread)} is not a thread.`);
+    }
+
+    // Thread creators may rename and archive their own threads; anything else needs Manage Threads
+    if (lock || thread.ownerId !== ctx.client.user?.id) {
+      checkBotPermissions(thread.guild, thread, PermissionFlagsBits.ManageThreads, 'archive, rename or lock this thread');
+    }
+
+    const changes = [name ? `rename to "${name}"` : null, lock ? 'lock' : null, 'archive'].filter(Boolean).join(', ');
+    if (ctx.dryRun) {
+      return `[Dry run] Would ${changes} ${describeChannel(thread)} in ${thread.guild.name}`;
+    }
+
+    // Renaming and locking must happen before archiving, which freezes the thread
+    if (name) await thread.setName(name);
+    if (lock) await thread.setLocked(true);
+    await thread.setArchived(true);
+    return `Done: ${changes} ${describeChannel(thread)} in ${thread.guild.name}.`;
+  },
+});
+
+export const createChannel = defineTool({
+  name: 'create_channel',
+  description: 'Create a text, announcement or forum channel, optionally inside a category',
+  mutating: true,
+  schema: z.object({
+    server: channelTarget.server,
+    name: z.string().min(1).max(100).describe('Channel name, e.g. "incident-42"'),
+    category: z.string().optional().describe('Category name or ID to create the channel in (optional)'),
+    type: z.enum(['text', 'announcement', 'forum']).default('text'),
+    topic: z.string().max(1024).optional().describe('Channel topic (optional)'),
+  }),
+  aliases: {
+    server_name: 'server',
+    server_id: 'server',
+    channel_name: 'name',
+    category_name: 'category',
+    category_id: 'category',
+    parent: 'category',
+    description: 'topic',
+  },
+  status: ({ name }) => `creating #${name.replace(/^#/, '')}`,
+  handler: async ({ server, name: rawName, category: categoryIdentifier, type, topic }, ctx) => {
+    const guild = await resolveGuild(ctx, server);
+    const category = categoryIdentifier ? findCategory(guild, categoryIdentifier) : null;
+    const name = rawName.replace(/^#/, '');
+    await ctx.policy.checkCreateChannel(guild, name, category, ctx.caller);
+    checkBotPermissions(guild, category, PermissionFlagsBits.ManageChannels, 'create channels');
+
+    const where = category ? ` in category ${category.name}` : '';
+    if (ctx.dryRun) {
+      return `[Dry run] Would create ${type} channel #${name}${where} in ${guild.name}${topic ? ` with topic: ${topic}` : ''}`;
+    }
+
+    const channelType = ({
+      text: ChannelType.GuildText,
+      announcement: ChannelType.GuildAnnouncement,
+      forum: ChannelType.GuildForum,
+    } as const)[type];
+    const created = await guild.channels.create({ name, type: channelType, parent: category ?? undefined, topic });
+    return `Created ${type} channel #${created.name} (ID: ${created.id})${where} in ${guild.name}.`;
+  },
+});
+
+export const setChannelTopic = defineTool({
+  name: 'set_channel_topic',
+  description: 'Set the topic of a text, announcement or forum channel',
+  mutating: true,
+  schema: z.object({
+    server: channelTarget.server,
+    channel: channelTarget.channel,
+    topic: z.string().max(1024).describe('New topic; an empty string clears it'),
+  }),
+  aliases: {
+    ...channelTargetAliases,
+    description: 'topic',
+  },
+  status: ({ channel }) => `setting the topic of ${describeTarget(channel)}`,
+  handler: async ({ server, channel: channelIdentifier, topic }, ctx) => {
+    const channel = await findThreadParent(ctx.client, channelIdentifier, server);
+    await ctx.policy.checkWrite(channel, ctx.caller);
+    checkBotPermissions(channel.guild, channel, PermissionFlagsBits.ManageChannels, 'change the channel topic');
+
+    if (ctx.dryRun) {
+      return `[Dry run] Would set the topic of #${channel.name} in ${channel.guild.name} to: ${topic || '(none)'}`;
+    }
+
+    await channel.setTopic(topic || null);
+    return `Set the topic of #${channel.name} in ${channel.guild.name}${topic ? ` to: ${topic}` : ' to nothing'}.`;
+  },
+});
@@ -0,0 +1,44 @@
+// ABOUTME: The single registry of Discord tools used by the MCP server and the LLM bot
+// ABOUTME: Add new tools here once; both surfaces pick them up automatically
+
+import { ToolRegistry } from './registry.js';
+import { listServers } from './servers.js';
+import { readMessages, sendMessage, editMessage, deleteMessage, pinMessage, unpinMessage } from './messages.js';
+import { searchMessages } from './search.js';
+import { addReaction, removeReaction, listReactions } from './reactions.js';
+import { readAttachment } from './attachments.js';
+import { listMembers, getUser, listRoles, getMemberRoles } from './members.js';
+import { createThread, archiveThread, createChannel, setChannelTopic } from './channels.js';
+import { scheduleMessage, listScheduled, cancelScheduled } from './schedule.js';
+import { usageReport } from './usage.js';
+import { auditLog } from './audit.js';
+
+export const toolRegistry = new ToolRegistry([
+  listServers,
+  readMessages,
+  readAttachment,
+  sendMessage,
+  editMessage,
+  deleteMessage,
+  pinMessage,
+  unpinMessage,
+  createThread,
+  archiveThread,
+  createChannel,
+  setChannelTopic,
+  scheduleMessage,
+  listScheduled,
+  cancelScheduled,
+  addReaction,
+  removeReaction,
+  listReactions,
+  searchMessages,
+  listMembers,
+  getUser,
+  listRoles,
+  getMemberRoles,
+  usageReport,
+  auditLog,
+]);
+
+export { formatToolError, toToolContent, toolResultText, type ToolContext, type ToolResult } from './registry.js';
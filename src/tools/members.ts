@@ -0,0 +1,237 @@
+// ABOUTME: Member, role and user lookup tools
+// ABOUTME: Listing members needs the privileged Server Members intent; user and role lookups work without it
+
+import { z } from 'zod';
+import type { Guild, GuildMember, Role, User } from 'discord.js';
+import { defineTool } from './registry.js';
+import { resolveGuild } from './targets.js';
+import { MEMBERS_INTENT } from '../discord.js';
+
+// Discord's member list endpoint returns at most 1000 members per page
+const MEMBER_PAGE_SIZE = 1000;
+const MEMBERS_MAX_LIMIT = 1000;
+
+const serverField = {
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+};
+
+const serverAliases = {
+  server_name: 'server',
+  server_id: 'server',
+  guild: 'server',
+  guild_id: 'server',
+};
+
+const userField = {
+  user: z.string().describe('User ID, @mention, username or display name'),
+};
+
+const userAliases = {
+  user_id: 'user',
+  username: 'user',
+  member: 'user',
+};
+
+const MEMBERS_INTENT_HINT = 'Listing members needs the Server Members intent: enable it for the bot in the Discord Developer Portal and set DISCORD_MEMBERS_INTENT=true.';
+
+function describeRole(role: Role) {
+  return {
+    id: role.id,
+    name: role.name,
+    color: role.hexColor,
+    position: role.position,
+    mentionable: role.mentionable,
+    // Role membership is only known when members are cached through the intent
+    ...(MEMBERS_INTENT ? { memberCount: role.members.size } : {}),
+  };
+}
+
+function describeMember(member: GuildMember) {
+  return {
+    id: member.id,
+    username: member.user.username,
+    displayName: member.displayName,
+    bot: member.user.bot,
+    roles: member.roles.cache.filter(r => r.id !== member.guild.id).map(r => r.name),
+  };
+}
+
+function describeUser(user: User, member?: GuildMember | null) {
+  return {
+    id: user.id,
+    username: user.username,
+    globalName: user.globalName,
+    bot: user.bot,
+    createdAt: user.createdAt.toISOString(),
+    avatar: user.displayAvatarURL(),
+    ...(member ? {
+      server: member.guild.name,
+      nickname: member.nickname,
+      displayName: member.displayName,
+      joinedAt: member.joinedAt?.toISOString(),
+      roles: member.roles.cache.filter(r => r.id !== member.guild.id).sort((a, b) => b.position - a.position).map(r => r.name),
+    } : {}),
+  };
+}
+
+function findRole(guild: Guild, identifier: string): Role {
+  const cleaned = identifier.replace(/^<@&(\d+)>$/, '$1').replace(/^@/, '');
+  const role = guild.roles.cache.get(cleaned) ??
+    guild.roles.cache.find(r => r.name.toLowerCase() === cleaned.toLowerCase());
+  if (!role) {
+    throw new Error(`Role "${identifier}" not found in ${guild.name}. Use the list_roles tool to see available roles.`);
+  }
+  return role;
+}
+
+// Resolve a member by ID or mention, falling back to a name search
+async function findMember(guild: Guild, identifier: string): Promise<GuildMember> {
+  const id = identifier.match(/^<@!?(\d+)>$|^(\d{15,21})$/);
+  if (id) {
+    const member = await guild.members.fetch(id[1] ?? id[2]).catch(() => null);
+    if (!member) {
+      throw new Error(`User ${id[1] ?? id[2]} is not a member of ${guild.name}.`);
+    }
+    return member;
+  }
+
+  const name = identifier.replace(/^@/, '');
+  const results = await guild.members.search({ query: name, limit: 10 });
+  const exact = results.filter(m =>
+    [m.user.username, m.displayName, m.user.globalName].some(n => n?.toLowerCase() === name.toLowerCase()));
+  const matches = exact.size > 0 ? exact : results;
+  if (matches.size === 0) {
+    throw new Error(`No member matching "${identifier}" in ${guild.name}.`);
+  }
+  if (matches.size > 1) {
+    const list = matches.map(m => `${m.displayName} (@${m.user.username}, ${m.id})`).join(', ');
+    throw new Error(`Multiple members match "${identifier}" in ${guild.name}: ${list}. Please specify the user ID.`);
+  }
+  return matches.first()!;
+}
+
+export const listRoles = defineTool({
+  name: 'list_roles',
+  description: 'List the roles in a Discord server, highest first',
+  schema: z.object(serverField),
+  aliases: serverAliases,
+  status: () => 'listing roles',
+  handler: async ({ server }, ctx) => {
+    const guild = await resolveGuild(ctx, server);
+    const roles = guild.roles.cache
+      .filter(r => r.id !== guild.id)
+      .sort((a, b) => b.position - a.position)
+      .map(describeRole);
+    return `Roles in ${guild.name} (${roles.length}):\n${JSON.stringify(roles, null, 2)}`;
+  },
+});
+
+export const listMembers = defineTool({
+  name: 'list_members',
+  description: 'List members of a Discord server, optionally only those with a role or whose name starts with a query. Paginated with the returned cursor',
+  schema: z.object({
+    ...serverField,
+    role: z.string().optional().describe('Only members with this role (name or ID)'),
+    query: z.string().optional().describe('Only members whose username or nickname starts with this'),
+    limit: z.coerce.number().int().min(1).max(MEMBERS_MAX_LIMIT).default(100)
+      .describe(`Maximum members to return (max ${MEMBERS_MAX_LIMIT})`),
+    after: z.string().optional().describe('Cursor from a previous call: continue after this user ID'),
+  }),
+  aliases: {
+    ...serverAliases,
+    role_name: 'role',
+    role_id: 'role',
+    name: 'query',
+    search: 'query',
+  },
+  status: ({ role }) => role ? `listing members with @${role.replace(/^@/, '')}` : 'listing members',
+  handler: async ({ server, role: roleIdentifier, query, limit, after }, ctx) => {
+    const guild = await resolveGuild(ctx, server);
+    const role = roleIdentifier ? findRole(guild, roleIdentifier) : undefined;
+
+    // Name search is a single request and doesn't page
+    if (query) {
+      const results = await guild.members.search({ query, limit: Math.min(limit, MEMBER_PAGE_SIZE) });
+      const members = results.filter(m => !role || m.roles.cache.has(role.id)).map(describeMember);
+      return `Members of ${guild.name} matching "${query}"${role ? ` with @${role.name}` : ''} (${members.length}):\n${JSON.stringify(members, null, 2)}`;
+    }
+
+    if (!MEMBERS_INTENT) {
+      throw new Error(MEMBERS_INTENT_HINT);
+    }
+
+    // Walk the member list in ID order, filtering by role, until the limit is reached
+    const members: GuildMember[] = [];
+    let cursor = after;
+    let full = false;
+    while (!full) {
+      const page = await guild.members.list({ limit: MEMBER_PAGE_SIZE, after: cursor }).catch((error) => {
+        throw new Error(`${error instanceof Error ? error.message : String(error)}. ${MEMBERS_INTENT_HINT}`);
+      });
+      for (const member of page.values()) {
+        cursor = member.id;
+        if (!role || member.roles.cache.has(role.id)) {
+          members.push(member);
+          full = members.length >= limit;
+          if (full) break;
+        }
+      }
+      // A short page is the end of the member list
+      if (page.size < MEMBER_PAGE_SIZE) break;
+    }
+
+    const more = full ? `More members may be available; pass after: "${cursor}" to continue.` : 'No more members.';
+    return `Members of ${guild.name}${role ? ` with @${role.name}` : ''} (${members.length}):\n${JSON.stringify(members.map(describeMember), null, 2)}\n${more}`;
+  },
+});
+
+export const getUser = defineTool({
+  name: 'get_user',
+  description: 'Look up a Discord user by ID, mention or name, including their nickname, join date and roles in the server',
+  schema: z.object({
+    ...serverField,
+    ...userField,
+  }),
+  aliases: { ...serverAliases, ...userAliases },
+  status: ({ user }) => `looking up ${user}`,
+  handler: async ({ server, user: identifier }, ctx) => {
+    const match = identifier.match(/^<@!?(\d+)>$|^(\d{15,21})$/);
+    const userId = match ? match[1] ?? match[2] : undefined;
+
+    // Users outside the server (or with no server given) can still be looked up by ID
+    const guild = await resolveGuild(ctx, server).catch((error) => {
+      if (userId) return null;
+      throw error;
+    });
+    let member: GuildMember | null = null;
+    if (guild) {
+      member = userId ? await guild.members.fetch(userId).catch(() => null) : await findMember(guild, identifier);
+    }
+    const user = member?.user ?? (userId ? await ctx.client.users.fetch(userId).catch(() => null) : null);
+    if (!user) {
+      throw new Error(`User "${identifier}" not found.`);
+    }
+
+    return JSON.stringify(describeUser(user, member), null, 2);
+  },
+});
+
+export const getMemberRoles = defineTool({
+  name: 'get_member_roles',
+  description: "List a server member's roles, highest first",
+  schema: z.object({
+    ...serverField,
+    ...userField,
+  }),
+  aliases: { ...serverAliases, ...userAliases },
+  status: ({ user }) => `checking roles of ${user}`,
+  handler: async ({ server, user }, ctx) => {
+    const guild = await resolveGuild(ctx, server);
+    const member = await findMember(guild, user);
+    const roles = member.roles.cache
+      .filter(r => r.id !== guild.id)
+      .sort((a, b) => b.position - a.position)
+      .map(describeRole);
+    return `Roles of ${member.displayName} (@${member.user.username}) in ${guild.name} (${roles.length}):\n${JSON.stringify(roles, null, 2)}`;
+  },
+});
@@ -0,0 +1,113 @@
+// ABOUTME: Embed and file attachment arguments for tools that post messages
+// ABOUTME: Validates the model-supplied structures and turns them into discord.js message options
+
+import { z } from 'zod';
+import { AttachmentBuilder, EmbedBuilder, type MessageCreateOptions } from 'discord.js';
+
+// Discord allows 10 embeds and 10 files per message; keep uploads under the default 10 MB cap
+const MAX_EMBEDS = 10;
+const MAX_FILES = 10;
+const MAX_FILE_BYTES = 8 * 1024 * 1024;
+
+export const embedSchema = z.object({
+  title: z.string().max(256).optional(),
+  description: z.string().max(4096).optional(),
+  url: z.string().url().optional().describe('Link for the title'),
+  color: z.union([z.string(), z.number()]).optional().describe('Hex color such as "#5865F2", or a number'),
+  fields: z.array(z.object({
+    name: z.string().min(1).max(256),
+    value: z.string().min(1).max(1024),
+    inline: z.boolean().optional(),
+  })).max(25).optional(),
+  footer: z.string().max(2048).optional(),
+  image_url: z.string().url().optional(),
+  thumbnail_url: z.string().url().optional(),
+  timestamp: z.string().optional().describe('ISO 8601 date to show in the footer'),
+});
+
+export const fileSchema = z.object({
+  filename: z.string().min(1).describe('File name including extension, e.g. "report.csv"'),
+  content: z.string().describe('File content: plain text, or base64 when encoding is "base64"'),
+  encoding: z.enum(['text', 'base64']).default('text'),
+});
+
+export const messageContentFields = {
+  embeds: z.array(embedSchema).max(MAX_EMBEDS).optional()
+    .describe('Rich embeds with title, description, fields, color, footer and URL'),
+  files: z.array(fileSchema).max(MAX_FILES).optional()
+    .describe('Files to upload, given as inline text or base64 content with a filename'),
+};
+
+export type EmbedInput = z.infer<typeof embedSchema>;
+export type FileInput = z.infer<typeof fileSchema>;
+
+function parseColor(color: string | number): number {
+  if (typeof color === 'number') return color;
+  const hex = color.trim().replace(/^#|^0x/i, '');
+  if (!/^[0-9a-f]{6}$/i.test(hex)) {
+    throw new Error(`Invalid embed color "${color}". Use a hex color such as "#5865F2".`);
+  }
+  return parseInt(hex, 16);
+}
+
+function buildEmbed(input: EmbedInput): EmbedBuilder {
+  const embed = new EmbedBuilder();
+  if (input.title) embed.setTitle(input.title);
+  if (input.description) embed.setDescription(input.description);
+  if (input.url) embed.setURL(input.url);
+  if (input.color !== undefined) embed.setColor(parseColor(input.color));
+  if (input.fields) embed.addFields(input.fields.map(f => ({ name: f.name, value: f.value, inline: f.inline ?? false })));
+  if (input.footer) embed.setFooter({ text: input.footer });
+  if (input.image_url) embed.setImage(input.image_url);
+  if (input.thumbnail_url) embed.setThumbnail(input.thumbnail_url);
+  if (input.timestamp) {
+    const timestamp = Date.parse(input.timestamp);
+    if (Number.isNaN(timestamp)) {
+      throw new Error(`Invalid embed timestamp "${input.timestamp}". Use an ISO 8601 date.`);
+    }
+    embed.setTimestamp(timestamp);
+  }
+  if (!input.title && !input.description && !input.fields?.length && !input.image_url) {
+    throw new Error('Each embed needs at least a title, description, fields or an image.');
+  }
+  return embed;
+}
+
+function buildFile(input: FileInput): AttachmentBuilder {
+  const data = input.encoding === 'base64'
+    ? Buffer.from(input.content, 'base64')
+    : Buffer.from(input.content, 'utf8');
+  if (data.length > MAX_FILE_BYTES) {
+    throw new Error(`File ${input.filename} is ${data.length} bytes; the limit is ${MAX_FILE_BYTES} bytes.`);
+  }
+  return new AttachmentBuilder(data, { name: input.filename });
+}
+
+// Build send options; throws when there is nothing to send or an embed/file is malformed
+export function buildMessageOptions(
+  message: string | undefined,
+  embeds: EmbedInput[] = [],
+  files: FileInput[] = []
+): MessageCreateOptions {
+  if (!message && embeds.length === 0 && files.length === 0) {
+    throw new Error('Nothing to send: provide a message, embeds or files.');
+  }
+  return {
+    ...(message ? { content: message } : {}),
+    embeds: embeds.map(buildEmbed),
+    files: files.map(buildFile),
+  };
+}
+
+// Plain-text summary of embeds and files for dry-run previews
+export function describeMessageExtras(embeds: EmbedInput[] = [], files: FileInput[] = []): string {
+  const lines: string[] = [];
+  for (const embed of embeds) {
+    lines.push(`[Embed] ${embed.title ?? embed.description?.slice(0, 80) ?? '(untitled)'}${embed.fields?.length ? ` (${embed.fields.length} fields)` : ''}`);
+  }
+  for (const file of files) {
+    const bytes = file.encoding === 'base64' ? Buffer.from(file.content, 'base64').length : Buffer.byteLength(file.content);
+    lines.push(`[File] ${file.filename} (${bytes} bytes)`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,182 @@
+// ABOUTME: Message tools for reading history, posting and replying, editing, deleting and pinning
+// ABOUTME: Targets are resolved by server, channel and optional thread name or ID; messages by ID within them
+
+import { z } from 'zod';
+import type { Message } from 'discord.js';
+import { defineTool } from './registry.js';
+import { channelTarget, channelTargetAliases, describeTarget, messageTarget, messageTargetAliases, resolveTarget } from './targets.js';
+import { summarizeReactions } from './reactions.js';
+import { buildMessageOptions, describeMessageExtras, messageContentFields } from './message-content.js';
+import { describeChannel, resolveMentions } from '../discord.js';
+import { fetchMessage, fetchMessageHistory, describeCursor, READ_MESSAGES_MAX_LIMIT } from '../history.js';
+
+// JSON-friendly view of a message, shared by read_messages and the channel resources
+export function summarizeMessage(msg: Message) {
+  return {
+    id: msg.id,
+    author: msg.author.tag,
+    content: resolveMentions(msg),
+    timestamp: msg.createdAt.toISOString(),
+    attachments: msg.attachments.map(a => ({ id: a.id, name: a.name, type: a.contentType, size: a.size, url: a.url })),
+    reactions: summarizeReactions(msg),
+  };
+}
+
+export const readMessages = defineTool({
+  name: 'read_messages',
+  description: 'Read messages from a Discord channel, thread or forum post. Returns the latest messages by default; use before/after/around or start_date/end_date to page through older history',
+  schema: z.object({
+    ...channelTarget,
+    limit: z.coerce.number().int().min(1).max(READ_MESSAGES_MAX_LIMIT).default(50)
+      .describe(`Number of messages to fetch (max ${READ_MESSAGES_MAX_LIMIT})`),
+    before: z.string().optional().describe('Only messages before this message ID (use the cursor from a previous read to continue)'),
+    after: z.string().optional().describe('Only messages after this message ID'),
+    around: z.string().optional().describe('Messages around this message ID (max 100)'),
+    start_date: z.string().optional().describe('Only messages at or after this ISO 8601 date/time (e.g., "2024-05-01")'),
+    end_date: z.string().optional().describe('Only messages before this ISO 8601 date/time'),
+  }),
+  aliases: {
+    ...channelTargetAliases,
+    message_limit: 'limit',
+    max_messages: 'limit',
+    before_id: 'before',
+    after_id: 'after',
+    around_id: 'around',
+    since: 'start_date',
+    from_date: 'start_date',
+    until: 'end_date',
+    to_date: 'end_date',
+  },
+  status: ({ channel, thread }) => `reading ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, ...historyOptions }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'read');
+
+    const { messages, nextCursor } = await fetchMessageHistory(channel, historyOptions);
+    const formattedMessages = messages.map(summarizeMessage);
+
+    return `Messages from ${describeChannel(channel)} in ${channel.guild.name} (${formattedMessages.length}, oldest first):\n${JSON.stringify(formattedMessages, null, 2)}\n${describeCursor(nextCursor)}`;
+  },
+});
+
+export const sendMessage = defineTool({
+  name: 'send_message',
+  description: 'Send a message to a Discord channel, thread or forum post, optionally with rich embeds and file attachments',
+  mutating: true,
+  schema: z.object({
+    ...channelTarget,
+    message: z.string().optional().describe('Message content to send (optional when sending embeds or files)'),
+    ...messageContentFields,
+    reply_to: z.string().optional().describe('ID of a message in the same channel or thread to reply to'),
+  }),
+  aliases: {
+    ...channelTargetAliases,
+    content: 'message',
+    text: 'message',
+    attachments: 'files',
+    embed: 'embeds',
+    reply_to_id: 'reply_to',
+    in_reply_to: 'reply_to',
+  },
+  status: ({ channel, thread, reply_to }) => `${reply_to ? 'replying' : 'posting'} in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message, embeds, files, reply_to }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+    const target = reply_to ? await fetchMessage(channel, reply_to, 'reply_to') : undefined;
+    const options = buildMessageOptions(message, embeds, files);
+
+    if (ctx.dryRun) {
+      const replying = target ? ` in reply to ${target.author.tag} (${target.id})` : '';
+      const preview = [message, describeMessageExtras(embeds, files)].filter(Boolean).join('\n');
+      return `[Dry run] Would send to ${describeChannel(channel)} in ${channel.guild.name}${replying}:\n${preview}`;
+    }
+
+    const sent = target ? await target.reply(options) : await channel.send(options);
+    return `Message sent successfully to ${describeChannel(channel)} in ${channel.guild.name}. Message ID: ${sent.id}`;
+  },
+});
+
+export const editMessage = defineTool({
+  name: 'edit_message',
+  description: "Edit one of the bot's own messages, e.g. to fix a typo",
+  mutating: true,
+  schema: z.object({
+    ...messageTarget,
+    message: z.string().min(1).describe('New message content, replacing the old content entirely'),
+  }),
+  aliases: {
+    ...messageTargetAliases,
+    content: 'message',
+    text: 'message',
+  },
+  status: ({ channel, thread }) => `editing a message in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message_id, message }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+    const target = await fetchMessage(channel, message_id);
+    ctx.policy.checkMessageOwnership(target, 'edit');
+
+    if (ctx.dryRun) {
+      return `[Dry run] Would edit message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name} to:\n${message}`;
+    }
+
+    await target.edit(message);
+    return `Edited message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}.`;
+  },
+});
+
+export const deleteMessage = defineTool({
+  name: 'delete_message',
+  description: "Delete a message. Limited to the bot's own messages unless the access policy allows deleting others'",
+  mutating: true,
+  schema: z.object(messageTarget),
+  aliases: messageTargetAliases,
+  status: ({ channel, thread }) => `deleting a message in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message_id }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+    const target = await fetchMessage(channel, message_id);
+    ctx.policy.checkMessageOwnership(target, 'delete');
+
+    if (ctx.dryRun) {
+      return `[Dry run] Would delete message ${target.id} by ${target.author.tag} in ${describeChannel(channel)} in ${channel.guild.name}:\n${target.content}`;
+    }
+
+    if (!target.deletable) {
+      throw new Error(`Cannot delete message ${target.id}: the bot needs the Manage Messages permission in ${describeChannel(channel)} to delete other people's messages.`);
+    }
+    await target.delete();
+    return `Deleted message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}.`;
+  },
+});
+
+// pin_message and unpin_message differ only in direction
+function definePinTool(pin: boolean) {
+  const verb = pin ? 'pin' : 'unpin';
+  return defineTool({
+    name: `${verb}_message`,
+    description: pin
+      ? 'Pin a message in its channel or thread, e.g. to keep a decision visible'
+      : 'Unpin a previously pinned message',
+    mutating: true,
+    schema: z.object(messageTarget),
+    aliases: messageTargetAliases,
+    status: ({ channel, thread }) => `${verb}ning a message in ${describeTarget(channel, thread)}`,
+    handler: async ({ server, channel: channelIdentifier, thread, message_id }, ctx) => {
+      const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+      const target = await fetchMessage(channel, message_id);
+
+      if (target.pinned === pin) {
+        return `Message ${target.id} is already ${pin ? 'pinned' : 'not pinned'}.`;
+      }
+      if (ctx.dryRun) {
+        return `[Dry run] Would ${verb} message ${target.id} by ${target.author.tag} in ${describeChannel(channel)} in ${channel.guild.name}:\n${target.content}`;
+      }
+      if (!target.pinnable) {
+        throw new Error(`Cannot ${verb} message ${target.id}: the bot needs the Manage Messages permission in ${describeChannel(channel)}, and system messages can't be pinned.`);
+      }
+
+      await (pin ? target.pin() : target.unpin());
+      return `${pin ? 'Pinned' : 'Unpinned'} message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}.`;
+    },
+  });
+}
+
+export const pinMessage = definePinTool(true);
+export const unpinMessage = definePinTool(false);
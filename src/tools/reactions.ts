@@ -0,0 +1,151 @@
+// ABOUTME: Reaction tools: add or remove the bot's reactions and list who reacted with what
+// ABOUTME: Emoji can be Unicode, <:name:id> custom emoji, or the name of a custom emoji in the server
+
+import { z } from 'zod';
+import type { Guild, Message, MessageReaction } from 'discord.js';
+import { defineTool } from './registry.js';
+import { describeTarget, messageTarget, messageTargetAliases, resolveTarget } from './targets.js';
+import { describeChannel } from '../discord.js';
+import { fetchMessage } from '../history.js';
+
+// Discord returns at most 100 users per reaction page
+const REACTION_USERS_PAGE = 100;
+
+const reactionAliases = {
+  ...messageTargetAliases,
+  reaction: 'emoji',
+};
+
+interface ResolvedEmoji {
+  // What message.react() accepts: the Unicode emoji or "name:id"
+  identifier: string;
+  // Custom emoji ID, or the Unicode emoji itself, to find the reaction on a message
+  key: string;
+  label: string;
+}
+
+function resolveEmoji(guild: Guild, emoji: string): ResolvedEmoji {
+  const trimmed = emoji.trim();
+
+  const custom = trimmed.match(/^<?(a)?:?(\w{2,32}):(\d{15,21})>?$/);
+  if (custom) {
+    const [, animated, name, id] = custom;
+    return { identifier: `${animated ? 'a:' : ''}${name}:${id}`, key: id, label: `:${name}:` };
+  }
+
+  // Plain names such as "shipit" or ":shipit:" refer to the server's custom emoji
+  const named = trimmed.match(/^:?(\w{2,32}):?$/);
+  if (named) {
+    const found = guild.emojis.cache.find(e => e.name === named[1] || e.id === named[1]);
+    if (!found || !found.name) {
+      throw new Error(`Unknown emoji "${emoji}". Use a Unicode emoji such as 👍 or a custom emoji from ${guild.name}.`);
+    }
+    return { identifier: found.identifier, key: found.id, label: `:${found.name}:` };
+  }
+
+  return { identifier: trimmed, key: trimmed, label: trimmed };
+}
+
+function findReaction(message: Message, emoji: ResolvedEmoji): MessageReaction | undefined {
+  return message.reactions.cache.find(r => r.emoji.id === emoji.key || (!r.emoji.id && r.emoji.name === emoji.key));
+}
+
+function reactionLabel(reaction: MessageReaction): string {
+  return reaction.emoji.id ? `:${reaction.emoji.name}:` : reaction.emoji.name ?? '?';
+}
+
+// Compact reaction counts for read_messages, e.g. { "👍": 3, ":shipit:": 1 }
+export function summarizeReactions(message: Message): Record<string, number> | undefined {
+  if (message.reactions.cache.size === 0) return undefined;
+  return Object.fromEntries(message.reactions.cache.map(r => [reactionLabel(r), r.count]));
+}
+
+export const addReaction = defineTool({
+  name: 'add_reaction',
+  description: 'React to a message with an emoji, e.g. to acknowledge it or vote in a poll',
+  mutating: true,
+  schema: z.object({
+    ...messageTarget,
+    emoji: z.string().min(1).describe('Unicode emoji (e.g. "👍"), a custom emoji like "<:name:id>", or a custom emoji name from the server'),
+  }),
+  aliases: reactionAliases,
+  status: ({ channel, thread, emoji }) => `reacting ${emoji} in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message_id, emoji }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+    const target = await fetchMessage(channel, message_id, 'message_id', true);
+    const resolved = resolveEmoji(channel.guild, emoji);
+
+    if (ctx.dryRun) {
+      return `[Dry run] Would react ${resolved.label} to message ${target.id} by ${target.author.tag} in ${describeChannel(channel)} in ${channel.guild.name}`;
+    }
+
+    await target.react(resolved.identifier);
+    return `Reacted ${resolved.label} to message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}.`;
+  },
+});
+
+export const removeReaction = defineTool({
+  name: 'remove_reaction',
+  description: "Remove the bot's own reaction from a message",
+  mutating: true,
+  schema: z.object({
+    ...messageTarget,
+    emoji: z.string().min(1).describe('The emoji to remove, in the same forms add_reaction accepts'),
+  }),
+  aliases: reactionAliases,
+  status: ({ channel, thread, emoji }) => `removing ${emoji} in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message_id, emoji }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+    const target = await fetchMessage(channel, message_id, 'message_id', true);
+    const resolved = resolveEmoji(channel.guild, emoji);
+
+    const reaction = findReaction(target, resolved);
+    if (!reaction?.me) {
+      return `The bot has not reacted ${resolved.label} to message ${target.id}; nothing to remove.`;
+    }
+    if (ctx.dryRun) {
+      return `[Dry run] Would remove the bot's ${resolved.label} reaction from message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}`;
+    }
+
+    await reaction.users.remove(ctx.client.user!.id);
+    return `Removed ${resolved.label} from message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}.`;
+  },
+});
+
+export const listReactions = defineTool({
+  name: 'list_reactions',
+  description: 'List the reactions on a message and who reacted with each emoji, e.g. to tally a poll',
+  schema: z.object({
+    ...messageTarget,
+    emoji: z.string().optional().describe('Only this emoji (optional; default all reactions)'),
+  }),
+  aliases: reactionAliases,
+  status: ({ channel, thread }) => `checking reactions in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message_id, emoji }, ctx) => {
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'read');
+    const target = await fetchMessage(channel, message_id, 'message_id', true);
+
+    let reactions = Array.from(target.reactions.cache.values());
+    if (emoji) {
+      const resolved = resolveEmoji(channel.guild, emoji);
+      const reaction = findReaction(target, resolved);
+      reactions = reaction ? [reaction] : [];
+    }
+    if (reactions.length === 0) {
+      return `No ${emoji ? `${emoji} ` : ''}reactions on message ${target.id} in ${describeChannel(channel)}.`;
+    }
+
+    const results = [];
+    for (const reaction of reactions) {
+      const users = await reaction.users.fetch({ limit: REACTION_USERS_PAGE });
+      results.push({
+        emoji: reactionLabel(reaction),
+        count: reaction.count,
+        users: users.map(user => user.tag),
+        ...(reaction.count > users.size ? { note: `showing the first ${users.size} users` } : {}),
+      });
+    }
+
+    return `Reactions on message ${target.id} in ${describeChannel(channel)} in ${channel.guild.name}:\n${JSON.stringify(results, null, 2)}`;
+  },
+});
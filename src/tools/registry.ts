@@ -0,0 +1,213 @@
+// ABOUTME: Tool registry types and the generators built on top of it
+// ABOUTME: Derives MCP tool lists, OpenAI function definitions, alias handling and validation from one declaration
+
+import type { Client } from 'discord.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { MessageArchive } from '../archive.js';
+import type { Scheduler } from '../scheduler.js';
+import type { UsageTracker } from '../usage.js';
+import type { AuditLog } from '../audit.js';
+import type { Policy, ToolCaller } from '../policy.js';
+import { createLogger, logContext } from '../logger.js';
+
+const log = createLogger('tools');
+
+// Everything a tool handler needs to reach Discord and local state
+export interface ToolContext {
+  client: Client;
+  archive: MessageArchive;
+  policy: Policy;
+  scheduler: Scheduler;
+  usage: UsageTracker;
+  // Every call is recorded here
+  audit: AuditLog;
+  // Who triggered the call; role rules apply to Discord users only
+  caller?: ToolCaller;
+  // Server the request came from, for the audit log (unset for DMs and MCP clients)
+  guildId?: string | null;
+  // Mutating tools describe what they would do instead of doing it (set from the policy or for previews)
+  dryRun?: boolean;
+}
+
+// Content blocks for results that aren't plain text, mirroring MCP's text and image content
+export type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+// Most tools return a string; tools that hand back images return content blocks
+export type ToolResult = string | ToolContent[];
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  // Canonical snake_case name; MCP clients see it hyphenated (read_messages -> read-messages)
+  name: string;
+  description: string;
+  // Tools that change Discord state; they honour write rules and dry-run mode
+  mutating?: boolean;
+  schema: S;
+  // Alternative argument names models tend to use, mapped to the canonical ones
+  aliases?: Record<string, string>;
+  // Short progress line shown to Discord users while the tool runs, e.g. "reading #general"
+  status?: (args: z.infer<S>) => string;
+  handler: (args: z.infer<S>, ctx: ToolContext) => Promise<ToolResult>;
+}
+
+// Preserves the schema type so handlers get typed arguments
+export function defineTool<S extends z.AnyZodObject>(tool: ToolDefinition<S>): ToolDefinition {
+  return tool as unknown as ToolDefinition;
+}
+
+export function toMcpName(name: string): string {
+  return name.replace(/_/g, '-');
+}
+
+export function fromMcpName(name: string): string {
+  return name.replace(/-/g, '_');
+}
+
+function toJsonSchema(schema: z.AnyZodObject): Record<string, unknown> {
+  const { $schema, additionalProperties, ...jsonSchema } = zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, unknown>;
+  return { properties: {}, ...jsonSchema, type: 'object' };
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  constructor(tools: ToolDefinition[]) {
+    for (const tool of tools) {
+      this.tools.set(tool.name, tool);
+    }
+  }
+
+  // Look up a tool by its canonical or hyphenated name
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(fromMcpName(name));
+  }
+
+  isMutating(name: string): boolean {
+    return !!this.get(name)?.mutating;
+  }
+
+  list(): ToolDefinition[] {
+    return Array.from(this.tools.values());
+  }
+
+  // Tool list for the MCP ListTools handler
+  toMcpTools() {
+    return this.list().map(tool => ({
+      name: toMcpName(tool.name),
+      description: tool.description,
+      inputSchema: toJsonSchema(tool.schema),
+    }));
+  }
+
+  // Tool list in OpenAI function-calling format for the LLM
+  toOpenAITools() {
+    return this.list().map(tool => ({
+      type: 'function' as const,
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: toJsonSchema(tool.schema),
+      },
+    }));
+  }
+
+  // Map parameter name variations onto canonical names and drop anything unrecognized
+  normalizeArgs(tool: ToolDefinition, args: unknown, quiet: boolean = false): Record<string, unknown> {
+    const normalized: Record<string, unknown> = { ...(args && typeof args === 'object' ? args : {}) };
+
+    for (const [wrongName, correctName] of Object.entries(tool.aliases ?? {})) {
+      if (wrongName in normalized && !(correctName in normalized)) {
+        normalized[correctName] = normalized[wrongName];
+      }
+      delete normalized[wrongName];
+    }
+
+    const validParams = Object.keys(tool.schema.shape);
+    for (const key of Object.keys(normalized)) {
+      if (!validParams.includes(key)) {
+        if (!quiet) log.debug('Removing unrecognized parameter', { tool: tool.name, parameter: key });
+        delete normalized[key];
+      }
+    }
+
+    return normalized;
+  }
+
+  // Progress line for a pending call; falls back to the tool name when arguments don't validate
+  describeCall(name: string, args: unknown): string {
+    const tool = this.get(name);
+    if (!tool) return `running ${name}`;
+    const parsed = tool.schema.safeParse(this.normalizeArgs(tool, args, true));
+    if (tool.status && parsed.success) {
+      return tool.status(parsed.data);
+    }
+    return `running ${tool.name}`;
+  }
+
+  // Normalize and validate arguments, then run the tool. Throws on unknown tools and invalid arguments.
+  // Every call to a known tool is logged and recorded in the audit log, failures included.
+  async execute(name: string, args: unknown, ctx: ToolContext): Promise<ToolResult> {
+    const tool = this.get(name);
+    if (!tool) {
+      log.warn('Unknown tool', { tool: name });
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const dryRun = !!(ctx.dryRun || ctx.policy.dryRun);
+    const started = Date.now();
+    const finish = (ok: boolean, result: string) => {
+      const latencyMs = Date.now() - started;
+      log.info('Tool call', { tool: tool.name, ok, latencyMs, dryRun, caller: ctx.caller?.type });
+      // A full disk shouldn't fail the call itself
+      try {
+        ctx.audit.record({
+          requestId: (logContext().requestId as string | undefined) ?? null,
+          caller: ctx.caller,
+          guildId: ctx.guildId ?? null,
+          tool: tool.name,
+          args: JSON.stringify(args ?? {}),
+          mutating: !!tool.mutating,
+          dryRun,
+          ok,
+          result,
+          latencyMs,
+        });
+      } catch (error) {
+        log.error('Failed to record audit entry', { tool: tool.name, error });
+      }
+    };
+
+    try {
+      const parsed = tool.schema.parse(this.normalizeArgs(tool, args));
+      const result = await tool.handler(parsed, { ...ctx, dryRun });
+      finish(true, toolResultText(result));
+      return result;
+    } catch (error) {
+      finish(false, formatToolError(error));
+      throw error;
+    }
+  }
+}
+
+export function toToolContent(result: ToolResult): ToolContent[] {
+  return typeof result === 'string' ? [{ type: 'text', text: result }] : result;
+}
+
+// Text part of a result, with a placeholder line for each image
+export function toolResultText(result: ToolResult): string {
+  return toToolContent(result)
+    .map(block => block.type === 'text' ? block.text : `[Image: ${block.mimeType}]`)
+    .join('\n');
+}
+
+// Readable message for any error thrown by a tool, including validation failures
+export function formatToolError(error: unknown): string {
+  if (error instanceof z.ZodError) {
+    return `Invalid arguments: ${error.errors
+      .map((e) => `${e.path.join(".")}: ${e.message}`)
+      .join(", ")}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
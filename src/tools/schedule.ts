@@ -0,0 +1,184 @@
+// ABOUTME: Tools to schedule one-off or cron-recurring posts, list them and cancel them
+// ABOUTME: A job posts fixed text or the answer to an LLM prompt; the write policy is checked when scheduling and again on every run
+
+import { z } from 'zod';
+import { defineTool, type ToolContext } from './registry.js';
+import { channelTarget, channelTargetAliases, describeTarget, resolveGuild, resolveTarget } from './targets.js';
+import { describeChannel, isMessageChannel } from '../discord.js';
+import { checkTimeZone, nextCronRun, parseCron } from '../cron.js';
+import { parseDuration } from '../durations.js';
+import { PolicyError } from '../policy.js';
+import type { ScheduledJob } from '../scheduler.js';
+
+// Time zone for cron schedules that don't name one
+const SCHEDULE_TIMEZONE = process.env.SCHEDULE_TIMEZONE || 'UTC';
+
+function describeSchedule(job: Pick<ScheduledJob, 'cron' | 'timezone' | 'nextRun'>): string {
+  if (job.cron) return `cron "${job.cron}" (${job.timezone})`;
+  return job.nextRun ? `once at ${new Date(job.nextRun).toISOString()}` : 'once (failed)';
+}
+
+// Whether the policy lets this caller read the job's channel. Threads are checked with their parent like
+// checkRead does; when the channel is gone, the stored "parent › thread" label stands in for it.
+async function canReadJobChannel(ctx: ToolContext, job: ScheduledJob): Promise<boolean> {
+  const guild = ctx.client.guilds.cache.get(job.guildId);
+  if (!guild) return false;
+  const channel = await ctx.client.channels.fetch(job.channelId).catch(() => null);
+  if (isMessageChannel(channel)) return ctx.policy.canRead(channel);
+  const [parentName, threadName] = job.channelName.split(' › ');
+  const channels = threadName === undefined
+    ? [{ id: job.channelId, name: parentName }]
+    : [{ id: job.channelId, name: threadName }, { id: '', name: parentName }];
+  return ctx.policy.canAccessChannel('read', guild, channels);
+}
+
+// JSON-friendly view for list_scheduled
+function summarizeJob(job: ScheduledJob) {
+  return {
+    id: job.id,
+    channel: `#${job.channelName}`,
+    channelId: job.channelId,
+    serverId: job.guildId,
+    [job.kind]: job.content,
+    schedule: describeSchedule(job),
+    nextRun: job.nextRun ? new Date(job.nextRun).toISOString() : null,
+    lastRun: job.lastRun ? new Date(job.lastRun).toISOString() : null,
+    ...(job.lastError ? { lastError: job.lastError } : {}),
+    createdBy: job.createdBy?.type === 'discord' ? job.createdBy.username ?? job.createdBy.userId : 'MCP client',
+  };
+}
+
+// "2025-06-02T09:00:00Z" or a delay from now such as "30m" or "2h"
+function parseRunAt(value: string): number {
+  const date = Date.parse(value);
+  const time = Number.isNaN(date) ? Date.now() + parseDuration(value) : date;
+  if (time <= Date.now()) {
+    throw new Error(`"${value}" is in the past. Give a future date or a delay such as 30m or 2h.`);
+  }
+  return time;
+}
+
+export const scheduleMessage = defineTool({
+  name: 'schedule_message',
+  description: 'Schedule a message for later, once or on a cron schedule. Instead of fixed text it can run a prompt at each time and post the answer, e.g. a weekly summary of another channel',
+  mutating: true,
+  schema: z.object({
+    ...channelTarget,
+    message: z.string().max(2000).optional().describe('Text to post (give this or prompt)'),
+    prompt: z.string().optional()
+      .describe('Instructions for the assistant to carry out at each run; its answer is posted. E.g. "Summarize the last week of #releases"'),
+    at: z.string().optional()
+      .describe('Post once at this time: an ISO 8601 date-time with offset such as 2025-06-02T09:00:00Z, or a delay such as 30m, 2h or 1d'),
+    cron: z.string().optional()
+      .describe('Post repeatedly on this cron schedule (minute hour day-of-month month day-of-week), e.g. "0 9 * * MON" for Mondays at 9:00'),
+    timezone: z.string().optional()
+      .describe(`IANA time zone for the cron schedule, e.g. "Europe/Berlin" (default ${SCHEDULE_TIMEZONE})`),
+  }),
+  aliases: {
+    ...channelTargetAliases,
+    content: 'message',
+    text: 'message',
+    instructions: 'prompt',
+    time: 'at',
+    when: 'at',
+    send_at: 'at',
+    schedule: 'cron',
+    recurrence: 'cron',
+    tz: 'timezone',
+  },
+  status: ({ channel, thread }) => `scheduling a post in ${describeTarget(channel, thread)}`,
+  handler: async ({ server, channel: channelIdentifier, thread, message, prompt, at, cron, timezone = SCHEDULE_TIMEZONE }, ctx) => {
+    if (!message === !prompt) {
+      throw new Error('Give exactly one of message (fixed text) or prompt (run by the assistant at each time).');
+    }
+    if (!at === !cron) {
+      throw new Error('Give exactly one of at (post once) or cron (post repeatedly).');
+    }
+    if (prompt && !ctx.scheduler.runsPrompts) {
+      throw new Error('Scheduled prompts need the LLM bot; the MCP-only server can only schedule fixed messages.');
+    }
+
+    const channel = await resolveTarget(ctx, { server, channel: channelIdentifier, thread }, 'write');
+    checkTimeZone(timezone);
+    const schedule = cron ? parseCron(cron) : undefined;
+    const nextRun = schedule ? nextCronRun(schedule, new Date(), timezone).getTime() : parseRunAt(at!);
+
+    const job = {
+      guildId: channel.guild.id,
+      channelId: channel.id,
+      channelName: describeChannel(channel).replace(/^#/, ''),
+      kind: prompt ? 'prompt' as const : 'message' as const,
+      content: (prompt ?? message)!,
+      cron: schedule?.expression ?? null,
+      timezone,
+      nextRun,
+      createdBy: ctx.caller,
+    };
+    const what = prompt ? `the answer to: ${prompt}` : message;
+
+    if (ctx.dryRun) {
+      return `[Dry run] Would schedule a post to ${describeChannel(channel)} in ${channel.guild.name}, ${describeSchedule(job)}:\n${what}`;
+    }
+
+    const created = ctx.scheduler.add(job);
+    return `Scheduled job ${created.id}: posting to ${describeChannel(channel)} in ${channel.guild.name}, ${describeSchedule(created)}. Next run: ${new Date(nextRun).toISOString()}.\n${what}`;
+  },
+});
+
+export const listScheduled = defineTool({
+  name: 'list_scheduled',
+  description: 'List scheduled and recurring posts with their next run time and any error from the last run',
+  schema: z.object({
+    server: channelTarget.server,
+  }),
+  aliases: {
+    server_name: 'server',
+    server_id: 'server',
+  },
+  status: () => 'listing scheduled posts',
+  handler: async ({ server }, ctx) => {
+    const guild = server ? await resolveGuild(ctx, server) : undefined;
+    // Hide jobs in servers and channels the policy doesn't let this caller read
+    const jobs: ScheduledJob[] = [];
+    for (const job of ctx.scheduler.list(guild?.id)) {
+      if (await canReadJobChannel(ctx, job)) jobs.push(job);
+    }
+
+    if (jobs.length === 0) {
+      return `No scheduled posts${guild ? ` in ${guild.name}` : ''}.`;
+    }
+    return `Scheduled posts${guild ? ` in ${guild.name}` : ''} (${jobs.length}):\n${JSON.stringify(jobs.map(summarizeJob), null, 2)}`;
+  },
+});
+
+export const cancelScheduled = defineTool({
+  name: 'cancel_scheduled',
+  description: 'Cancel a scheduled or recurring post by its job ID (from list_scheduled)',
+  mutating: true,
+  schema: z.object({
+    id: z.coerce.number().int().describe('Job ID from schedule_message or list_scheduled'),
+  }),
+  aliases: {
+    job_id: 'id',
+    jobId: 'id',
+  },
+  status: ({ id }) => `cancelling scheduled job ${id}`,
+  handler: async ({ id }, ctx) => {
+    const job = ctx.scheduler.get(id);
+    if (!job) {
+      throw new Error(`No scheduled job with ID ${id}. Use list_scheduled to see scheduled posts.`);
+    }
+
+    // Cancelling needs the same write access as posting; jobs whose channel is gone can always be cancelled
+    await resolveTarget(ctx, { server: job.guildId, channel: job.channelId }, 'write').catch((error) => {
+      if (error instanceof PolicyError) throw error;
+    });
+
+    if (ctx.dryRun) {
+      return `[Dry run] Would cancel job ${job.id} posting to #${job.channelName}, ${describeSchedule(job)}`;
+    }
+
+    ctx.scheduler.remove(job.id);
+    return `Cancelled job ${job.id} posting to #${job.channelName}, ${describeSchedule(job)}.`;
+  },
+});
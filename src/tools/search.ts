@@ -0,0 +1,46 @@
+// ABOUTME: Archive search tool
+// ABOUTME: Full-text search over the local message archive with metadata filters
+
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+import { formatSearchResults } from '../archive.js';
+
+export const searchMessages = defineTool({
+  name: 'search_messages',
+  description: 'Full-text search of the local message archive across all channels the bot can see. Use this to find where something was mentioned',
+  schema: z.object({
+    query: z.string().optional().describe('Words to search for (all must appear)'),
+    author: z.string().optional().describe('Author username, tag or user ID'),
+    channel: z.string().optional().describe('Channel name or ID'),
+    server: z.string().optional().describe('Server name or ID'),
+    start_date: z.string().optional().describe('Only messages at or after this ISO 8601 date/time'),
+    end_date: z.string().optional().describe('Only messages before this ISO 8601 date/time'),
+    has_attachment: z.boolean().optional().describe('Only messages with (true) or without (false) attachments'),
+    limit: z.coerce.number().int().min(1).max(100).default(25).describe('Maximum results (max 100)'),
+  }),
+  aliases: {
+    text: 'query',
+    keywords: 'query',
+    user: 'author',
+    username: 'author',
+    channel_name: 'channel',
+    server_name: 'server',
+    since: 'start_date',
+    until: 'end_date',
+    has_attachments: 'has_attachment',
+    max_results: 'limit',
+  },
+  status: ({ query }) => query ? `searching the archive for "${query}"` : 'searching the archive',
+  handler: async (filters, { archive, policy }) => {
+    // Skip hits from channels the access policy doesn't let the bot read
+    const results = archive.search(filters, r => {
+      // Thread labels are "parent › thread"; a thread is governed by its own rules and its parent's
+      const [parentName, threadName] = r.channel_name.split(' › ');
+      const channels = threadName === undefined
+        ? [{ id: r.channel_id, name: parentName }]
+        : [{ id: r.channel_id, name: threadName }, { id: r.parent_id ?? '', name: parentName }];
+      return policy.canAccessChannel('read', { id: r.guild_id, name: r.guild_name }, channels);
+    });
+    return formatSearchResults(results);
+  },
+});
@@ -0,0 +1,39 @@
+// ABOUTME: Server discovery tool
+// ABOUTME: Lists guilds with their readable channels and active threads
+
+import { z } from 'zod';
+import { defineTool } from './registry.js';
+import { describeChannel, isMessageChannel, isThreadParent } from '../discord.js';
+
+export const listServers = defineTool({
+  name: 'list_servers',
+  description: 'List all Discord servers the bot is connected to, with their channels and active threads',
+  schema: z.object({}),
+  status: () => 'listing servers',
+  handler: async (_args, { client, policy }) => {
+    // Only show what the access policy lets the bot read
+    const guilds = Array.from(client.guilds.cache.values()).filter(g => policy.canAccessGuild('read', g));
+    const servers = await Promise.all(guilds.map(async guild => {
+      const activeThreads = await guild.channels.fetchActiveThreads().catch(() => null);
+      const readable = (channel: { id: string; name: string }, parent?: { id: string; name: string } | null) =>
+        policy.canAccessChannel('read', guild, parent ? [channel, parent] : [channel]);
+      return {
+        name: guild.name,
+        id: guild.id,
+        memberCount: guild.memberCount,
+        channels: guild.channels.cache
+          .filter(c => !c.isThread() && (isMessageChannel(c) || isThreadParent(c)) && readable(c))
+          .map(c => ({ id: c.id, name: `#${c.name}` }))
+          .slice(0, 20), // Limit channels shown
+        threads: activeThreads
+          ? activeThreads.threads
+              .filter(t => isMessageChannel(t) && readable(t, t.parent))
+              .map(t => ({ id: t.id, name: describeChannel(t) }))
+              .slice(0, 20)
+          : [],
+      };
+    }));
+
+    return JSON.stringify(servers, null, 2);
+  },
+});
@@ -0,0 +1,66 @@
+// ABOUTME: Channel target arguments shared by tools, and their policy-checked resolution
+// ABOUTME: Every tool that addresses a channel resolves it here so access rules apply uniformly
+
+import { z } from 'zod';
+import type { ToolContext } from './registry.js';
+import type { Guild } from 'discord.js';
+import { findChannel, findGuild, type MessageChannel } from '../discord.js';
+import type { Access } from '../policy.js';
+
+// Target fields shared by every tool that addresses a channel
+export const channelTarget = {
+  server: z.string().optional().describe('Server name or ID (optional if bot is only in one server)'),
+  channel: z.string().describe('Channel name (e.g., "general" or "#general") or ID. Thread and forum post IDs work too'),
+  thread: z.string().optional().describe('Thread or forum post name or ID inside the channel (optional)'),
+};
+
+export const channelTargetAliases = {
+  channel_name: 'channel',
+  channel_id: 'channel',
+  server_name: 'server',
+  server_id: 'server',
+  thread_name: 'thread',
+  thread_id: 'thread',
+};
+
+// Channel target plus the ID of a message inside it
+export const messageTarget = {
+  ...channelTarget,
+  message_id: z.string().describe('ID of the message (from read_messages or search_messages)'),
+};
+
+export const messageTargetAliases = {
+  ...channelTargetAliases,
+  id: 'message_id',
+  messageId: 'message_id',
+};
+
+export interface ChannelTarget {
+  server?: string;
+  channel: string;
+  thread?: string;
+}
+
+// Label for a target before it is resolved, e.g. "#general › standup"
+export function describeTarget(channel: string, thread?: string): string {
+  const label = `#${channel.replace(/^#/, '')}`;
+  return thread ? `${label} › ${thread}` : label;
+}
+
+// Resolve a server for tools that work on a whole guild (members, roles), enforcing read access
+export async function resolveGuild(ctx: ToolContext, server?: string): Promise<Guild> {
+  const guild = await findGuild(ctx.client, server);
+  ctx.policy.checkGuildRead(guild);
+  return guild;
+}
+
+// Resolve a channel and enforce the access policy for the requested kind of access
+export async function resolveTarget(ctx: ToolContext, target: ChannelTarget, access: Access): Promise<MessageChannel> {
+  const channel = await findChannel(ctx.client, target.channel, target.server, target.thread);
+  if (access === 'read') {
+    ctx.policy.checkRead(channel);
+  } else {
+    await ctx.policy.checkWrite(channel, ctx.caller);
+  }
+  return channel;
+}
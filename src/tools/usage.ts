@@ -0,0 +1,42 @@
+// ABOUTME: usage_report tool: LLM token usage and cost by user, server and model
+// ABOUTME: Discord users need Manage Server in the server they ask about; MCP clients see every server
+
+import { z } from 'zod';
+import { PermissionFlagsBits } from 'discord.js';
+import { defineTool } from './registry.js';
+import { resolveGuild } from './targets.js';
+import { parseSince } from '../durations.js';
+import { PolicyError } from '../policy.js';
+import { formatUsageReport } from '../usage.js';
+
+export const usageReport = defineTool({
+  name: 'usage_report',
+  description: 'Report LLM token usage and cost by user, server and model over a recent period (server admins only)',
+  schema: z.object({
+    server: z.string().optional().describe('Only usage in this server (name or ID). Discord users always get one server'),
+    since: z.string().default('24h').describe('How far back to look: a duration such as 12h, 7d or 4w, or an ISO date (default 24h)'),
+  }),
+  aliases: {
+    server_name: 'server',
+    server_id: 'server',
+    period: 'since',
+    start_date: 'since',
+  },
+  status: () => 'checking LLM usage',
+  handler: async ({ server, since }, ctx) => {
+    const date = Date.parse(since);
+    const start = Number.isNaN(date) ? parseSince(since).getTime() : date;
+
+    // Spend in one server is admin information; MCP clients already hold the bot's token
+    const guild = server || ctx.caller?.type === 'discord' ? await resolveGuild(ctx, server) : undefined;
+    if (guild && ctx.caller?.type === 'discord') {
+      const member = await guild.members.fetch(ctx.caller.userId).catch(() => null);
+      if (!member?.permissions.has(PermissionFlagsBits.ManageGuild)) {
+        throw new PolicyError(`usage reports for ${guild.name} are limited to server admins (Manage Server).`);
+      }
+    }
+
+    const report = ctx.usage.report({ since: start, guildId: guild?.id });
+    return formatUsageReport(report, guild ? `in ${guild.name}` : 'across all servers');
+  },
+});
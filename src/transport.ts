@@ -0,0 +1,198 @@
+// ABOUTME: MCP transports for both entrypoints: stdio, Streamable HTTP with an SSE fallback, or both
+// ABOUTME: HTTP sessions each get their own MCP server over the shared Discord client and require a bearer token
+
+import http, { type IncomingMessage, type ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createLogger } from './logger.js';
+
+const log = createLogger('mcp');
+
+export type TransportMode = 'stdio' | 'http' | 'both';
+
+const TRANSPORT_MODES: TransportMode[] = ['stdio', 'http', 'both'];
+
+// Largest JSON-RPC request body accepted over HTTP
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Streamable HTTP clients don't always end their session, so idle ones are closed after this long
+const SESSION_IDLE_MS = (Number(process.env.MCP_HTTP_SESSION_IDLE_MINUTES) || 30) * 60_000;
+
+export interface HttpOptions {
+  port: number;
+  host: string;
+  token: string;
+}
+
+// --transport=<mode> on the command line wins over MCP_TRANSPORT; stdio by default
+export function transportMode(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): TransportMode {
+  const flag = argv.find(arg => arg.startsWith('--transport='))?.split('=')[1];
+  const mode = (flag ?? env.MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (!TRANSPORT_MODES.includes(mode as TransportMode)) {
+    throw new Error(`Unknown MCP transport "${mode}". Use stdio, http or both.`);
+  }
+  return mode as TransportMode;
+}
+
+export function httpOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): HttpOptions {
+  const token = env.MCP_HTTP_TOKEN;
+  if (!token) {
+    throw new Error('MCP_HTTP_TOKEN must be set to serve MCP over HTTP');
+  }
+  return {
+    // Render and similar hosts provide PORT
+    port: Number(env.MCP_HTTP_PORT || env.PORT) || 3000,
+    host: env.MCP_HTTP_HOST || '0.0.0.0',
+    token,
+  };
+}
+
+// Start the transports for the chosen mode. createServer is called once per connection.
+export async function startTransports(createServer: () => Server, mode: TransportMode = transportMode()): Promise<void> {
+  if (mode === 'http' || mode === 'both') {
+    await startHttpServer(createServer, httpOptionsFromEnv());
+  }
+  if (mode === 'stdio' || mode === 'both') {
+    await createServer().connect(new StdioServerTransport());
+    log.info('MCP server running on stdio');
+  }
+}
+
+function authorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const presented = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const expected = Buffer.from(token);
+  return header.toLowerCase().startsWith('bearer ') &&
+    presented.length === expected.length &&
+    timingSafeEqual(presented, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : undefined;
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+// Streamable HTTP on /mcp, plus the older HTTP+SSE transport on /sse and /messages for clients that haven't moved on
+export async function startHttpServer(createServer: () => Server, options: HttpOptions): Promise<http.Server> {
+  const streamable = new Map<string, StreamableHTTPServerTransport>();
+  const sse = new Map<string, SSEServerTransport>();
+  const lastSeen = new Map<string, number>();
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    const existing = typeof sessionId === 'string' ? streamable.get(sessionId) : undefined;
+    if (existing) {
+      lastSeen.set(sessionId as string, Date.now());
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+    if (sessionId) {
+      sendError(res, 404, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendError(res, 400, 'No session: send an initialize request first');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamable.set(id, transport);
+        lastSeen.set(id, Date.now());
+        log.info('MCP HTTP session started', { sessionId: id, open: streamable.size + sse.size });
+      },
+    });
+    transport.onclose = () => {
+      if (!transport.sessionId) return;
+      streamable.delete(transport.sessionId);
+      lastSeen.delete(transport.sessionId);
+    };
+    await createServer().connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const handleSse = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    if (req.method === 'GET' && url.pathname === '/sse') {
+      const transport = new SSEServerTransport('/messages', res);
+      sse.set(transport.sessionId, transport);
+      transport.onclose = () => sse.delete(transport.sessionId);
+      await createServer().connect(transport);
+      log.info('MCP SSE session started', { sessionId: transport.sessionId, open: streamable.size + sse.size });
+      return;
+    }
+
+    const transport = sse.get(url.searchParams.get('sessionId') ?? '');
+    if (!transport) {
+      sendError(res, 404, 'Session not found');
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // Unauthenticated health check for load balancers
+    if (url.pathname === '/health') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+      return;
+    }
+    if (!authorized(req, options.token)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+      return;
+    }
+
+    try {
+      if (url.pathname === '/mcp') {
+        await handleStreamable(req, res);
+      } else if (url.pathname === '/sse' || (url.pathname === '/messages' && req.method === 'POST')) {
+        await handleSse(req, res, url);
+      } else {
+        res.writeHead(404).end('Not found');
+      }
+    } catch (error) {
+      log.error('MCP HTTP request failed', { error });
+      sendError(res, error instanceof SyntaxError ? 400 : 500, error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  const sweep = setInterval(() => {
+    for (const [id, seen] of lastSeen) {
+      if (Date.now() - seen > SESSION_IDLE_MS) {
+        log.info('Closing idle MCP HTTP session', { sessionId: id });
+        streamable.get(id)?.close().catch(() => undefined);
+      }
+    }
+  }, 60_000);
+  sweep.unref();
+  server.on('close', () => clearInterval(sweep));
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve());
+  });
+  log.info(`MCP server listening on http://${options.host}:${options.port}/mcp (SSE fallback on /sse)`);
+  return server;
+}
@@ -0,0 +1,239 @@
+// ABOUTME: LLM usage accounting with per-user and per-guild rate limits and daily token and cost quotas
+// ABOUTME: Each completion's tokens and cost are stored in SQLite so quotas and reports survive restarts
+
+import Database from 'better-sqlite3';
+import fs from 'node:fs';
+import path from 'node:path';
+import type { TokenUsage } from './llm/index.js';
+
+const USAGE_PATH = process.env.USAGE_PATH || path.join('data', 'usage.db');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface UsageLimits {
+  // Requests per window; 0 disables the limit
+  userRequests: number;
+  guildRequests: number;
+  windowMs: number;
+  // Daily caps since 00:00 UTC; undefined means unlimited
+  userDailyTokens?: number;
+  guildDailyTokens?: number;
+  userDailyCost?: number;
+  guildDailyCost?: number;
+}
+
+// USD per million tokens, for providers that don't report cost themselves
+export type Pricing = Record<string, { input: number; output: number }>;
+
+// Who a request is billed to; DMs have no guild
+export interface UsageSubject {
+  userId?: string;
+  username?: string;
+  guildId?: string | null;
+  guildName?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+export interface UsageReport {
+  since: number;
+  total: UsageTotals;
+  byUser: (UsageTotals & { name: string })[];
+  byGuild: (UsageTotals & { name: string })[];
+  byModel: (UsageTotals & { name: string })[];
+}
+
+// Thrown when a request is throttled; the message is a notice meant for the user
+export class UsageLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageLimitError';
+  }
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  return value === undefined || value === '' ? undefined : Number(value);
+}
+
+export function limitsFromEnv(env: NodeJS.ProcessEnv = process.env): UsageLimits {
+  return {
+    userRequests: Number(env.USER_RATE_LIMIT ?? 10),
+    guildRequests: Number(env.GUILD_RATE_LIMIT ?? 60),
+    windowMs: (Number(env.RATE_LIMIT_WINDOW_MINUTES) || 10) * 60_000,
+    userDailyTokens: optionalNumber(env.USER_DAILY_TOKENS),
+    guildDailyTokens: optionalNumber(env.GUILD_DAILY_TOKENS),
+    userDailyCost: optionalNumber(env.USER_DAILY_COST),
+    guildDailyCost: optionalNumber(env.GUILD_DAILY_COST),
+  };
+}
+
+export function pricingFromEnv(env: NodeJS.ProcessEnv = process.env): Pricing {
+  if (!env.LLM_PRICING) return {};
+  try {
+    return JSON.parse(env.LLM_PRICING);
+  } catch (error) {
+    throw new Error(`LLM_PRICING is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function startOfDay(now: number = Date.now()): number {
+  return now - (now % DAY_MS);
+}
+
+function waitLabel(ms: number): string {
+  const minutes = Math.ceil(ms / 60_000);
+  if (minutes <= 1) return `${Math.max(1, Math.ceil(ms / 1000))} seconds`;
+  if (minutes < 60) return `${minutes} minutes`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+function formatTotals(totals: UsageTotals): string {
+  const tokens = totals.promptTokens + totals.completionTokens;
+  return `${totals.calls} call${totals.calls === 1 ? '' : 's'}, ${formatTokens(tokens)} tokens (${formatTokens(totals.promptTokens)} in / ${formatTokens(totals.completionTokens)} out), $${totals.cost.toFixed(4)}`;
+}
+
+// Plain-text report shared by the usage_report tool and the /usage command
+export function formatUsageReport(report: UsageReport, scope: string): string {
+  const section = (title: string, rows: UsageReport['byUser']) =>
+    rows.length > 0 ? [`**${title}**`, ...rows.map(r => `- ${r.name}: ${formatTotals(r)}`)] : [];
+  return [
+    `LLM usage ${scope} since ${new Date(report.since).toISOString()}: ${formatTotals(report.total)}`,
+    ...section('By user', report.byUser),
+    ...section('By server', report.byGuild),
+    ...section('By model', report.byModel),
+  ].join('\n');
+}
+
+export class UsageTracker {
+  private db: Database.Database;
+  // Request timestamps inside the current rate-limit window, keyed by "user:<id>" or "guild:<id>"
+  private recent = new Map<string, number[]>();
+
+  constructor(
+    private limits: UsageLimits = limitsFromEnv(),
+    private pricing: Pricing = pricingFromEnv(),
+    filename: string = USAGE_PATH
+  ) {
+    if (filename !== ':memory:') {
+      fs.mkdirSync(path.dirname(filename), { recursive: true });
+    }
+    this.db = new Database(filename);
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL,
+        user_id TEXT,
+        username TEXT,
+        guild_id TEXT,
+        guild_name TEXT,
+        model TEXT NOT NULL,
+        prompt_tokens INTEGER NOT NULL,
+        completion_tokens INTEGER NOT NULL,
+        cost REAL
+      );
+      CREATE INDEX IF NOT EXISTS usage_created ON usage (created_at);
+      CREATE INDEX IF NOT EXISTS usage_user ON usage (user_id, created_at);
+      CREATE INDEX IF NOT EXISTS usage_guild ON usage (guild_id, created_at);
+    `);
+  }
+
+  // Admit a request or throw UsageLimitError with a notice for the user. Admitted requests count towards the rate limits.
+  checkRequest(subject: UsageSubject, now: number = Date.now()): void {
+    const keys: [string, number, string][] = [];
+    if (subject.userId) keys.push([`user:${subject.userId}`, this.limits.userRequests, "You're sending me requests faster than I can keep up with"]);
+    if (subject.guildId) keys.push([`guild:${subject.guildId}`, this.limits.guildRequests, "This server is sending me a lot of requests right now"]);
+
+    for (const [key, limit, reason] of keys) {
+      if (!limit) continue;
+      const recent = (this.recent.get(key) ?? []).filter(t => t > now - this.limits.windowMs);
+      this.recent.set(key, recent);
+      if (recent.length >= limit) {
+        throw new UsageLimitError(`${reason}. Please try again in ${waitLabel(recent[0] + this.limits.windowMs - now)}.`);
+      }
+    }
+
+    this.checkQuota('user_id', subject.userId, this.limits.userDailyTokens, this.limits.userDailyCost, "You've reached your", now);
+    this.checkQuota('guild_id', subject.guildId, this.limits.guildDailyTokens, this.limits.guildDailyCost, 'This server has reached its', now);
+
+    for (const [key, limit] of keys) {
+      if (limit) this.recent.get(key)!.push(now);
+    }
+  }
+
+  private checkQuota(
+    column: 'user_id' | 'guild_id',
+    id: string | null | undefined,
+    maxTokens: number | undefined,
+    maxCost: number | undefined,
+    who: string,
+    now: number
+  ): void {
+    if (!id || (maxTokens === undefined && maxCost === undefined)) return;
+    const used = this.db.prepare(`
+      SELECT COALESCE(SUM(prompt_tokens + completion_tokens), 0) AS tokens, COALESCE(SUM(cost), 0) AS cost
+      FROM usage WHERE ${column} = ? AND created_at >= ?
+    `).get(id, startOfDay(now)) as { tokens: number; cost: number };
+
+    if ((maxTokens !== undefined && used.tokens >= maxTokens) || (maxCost !== undefined && used.cost >= maxCost)) {
+      throw new UsageLimitError(`${who} daily usage limit, sorry! It resets at 00:00 UTC, in ${waitLabel(startOfDay(now) + DAY_MS - now)}.`);
+    }
+  }
+
+  // Cost as reported by the provider, else from LLM_PRICING (exact model name, then the longest matching prefix)
+  private costOf(model: string, usage: TokenUsage): number | null {
+    if (usage.cost !== undefined) return usage.cost;
+    const key = model in this.pricing
+      ? model
+      : Object.keys(this.pricing).filter(name => model.startsWith(name)).sort((a, b) => b.length - a.length)[0];
+    if (!key) return null;
+    const price = this.pricing[key];
+    return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+  }
+
+  record(subject: UsageSubject, model: string, usage: TokenUsage | undefined): void {
+    if (!usage) return;
+    this.db.prepare(`
+      INSERT INTO usage (created_at, user_id, username, guild_id, guild_name, model, prompt_tokens, completion_tokens, cost)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      Date.now(),
+      subject.userId ?? null,
+      subject.username ?? null,
+      subject.guildId ?? null,
+      subject.guildName ?? null,
+      model,
+      usage.promptTokens,
+      usage.completionTokens,
+      this.costOf(model, usage)
+    );
+  }
+
+  report(options: { since: number; guildId?: string }): UsageReport {
+    const where = `created_at >= @since${options.guildId ? ' AND guild_id = @guildId' : ''}`;
+    const params = { since: options.since, guildId: options.guildId };
+    const totals = `COUNT(*) AS calls, COALESCE(SUM(prompt_tokens), 0) AS promptTokens,
+      COALESCE(SUM(completion_tokens), 0) AS completionTokens, COALESCE(SUM(cost), 0) AS cost`;
+    const grouped = (name: string, key: string) => this.db.prepare(`
+      SELECT ${name} AS name, ${totals} FROM usage WHERE ${where}
+      GROUP BY ${key} ORDER BY cost DESC, promptTokens + completionTokens DESC
+    `).all(params) as (UsageTotals & { name: string })[];
+
+    return {
+      since: options.since,
+      total: this.db.prepare(`SELECT ${totals} FROM usage WHERE ${where}`).get(params) as UsageTotals,
+      byUser: grouped("COALESCE(MAX(username), user_id, 'unknown')", 'user_id'),
+      byGuild: grouped("COALESCE(MAX(guild_name), guild_id, 'DMs')", 'guild_id'),
+      byModel: grouped('model', 'model'),
+    };
+  }
+}